@@ -7,6 +7,7 @@ const mockCreate = jest.fn();
 const mockRetrieve = jest.fn();
 const mockResults = jest.fn();
 const mockCancel = jest.fn();
+const mockList = jest.fn();
 
 jest.mock("@anthropic-ai/sdk", () => ({
   Anthropic: jest.fn().mockImplementation(() => ({
@@ -16,6 +17,7 @@ jest.mock("@anthropic-ai/sdk", () => ({
         retrieve: mockRetrieve,
         results: mockResults,
         cancel: mockCancel,
+        list: mockList,
       },
     },
   })),
@@ -238,6 +240,346 @@ describe("AnthropicLanguageModel", () => {
     });
   });
 
+  describe("content parts", () => {
+    it("should send inline images and PDFs as base64 sources", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          input: [
+            {
+              type: "image_url",
+              image_url: { url: "data:image/png;base64,AAAA" },
+            },
+            {
+              type: "image_base64",
+              image_base64: { data: "BBBB", mediaType: "image/jpeg" },
+            },
+            { type: "document", document: { data: "CCCC" } },
+            {
+              type: "document",
+              document: { url: "https://example.com/report.pdf" },
+            },
+          ],
+        },
+      ]);
+
+      const params = mockCreate.mock.calls[0][0].requests[0].params;
+      expect(params.messages[0].content).toEqual([
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: "AAAA" },
+        },
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/jpeg", data: "BBBB" },
+        },
+        {
+          type: "document",
+          source: {
+            type: "base64",
+            media_type: "application/pdf",
+            data: "CCCC",
+          },
+        },
+        {
+          type: "document",
+          source: { type: "url", url: "https://example.com/report.pdf" },
+        },
+      ]);
+    });
+
+    it("should reject malformed parts before submitting", async () => {
+      await expect(
+        model.createTextBatch([
+          { customId: "test-1", input: [{ type: "image_base64" }] },
+        ])
+      ).rejects.toMatchObject({ code: "unsupported_content_part" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("prompt caching", () => {
+    it("should emit cache_control for cacheable prompts and parts", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          systemPrompt: "Long shared instructions",
+          cacheSystemPrompt: true,
+          input: [
+            { type: "text", text: "Reference document", cache: true },
+            { type: "text", text: "Question" },
+          ],
+        },
+      ]);
+
+      const params = mockCreate.mock.calls[0][0].requests[0].params;
+      expect(params.system).toEqual([
+        {
+          type: "text",
+          text: "Long shared instructions",
+          cache_control: { type: "ephemeral" },
+        },
+      ]);
+      expect(params.messages[0].content).toEqual([
+        {
+          type: "text",
+          text: "Reference document",
+          cache_control: { type: "ephemeral" },
+        },
+        { type: "text", text: "Question" },
+      ]);
+    });
+
+    it("should reject more than four cache breakpoints", async () => {
+      await expect(
+        model.createTextBatch([
+          {
+            customId: "test-1",
+            systemPrompt: "Instructions",
+            cacheSystemPrompt: true,
+            input: Array.from({ length: 4 }, () => ({
+              type: "text" as const,
+              text: "Context",
+              cache: true,
+            })),
+          },
+        ])
+      ).rejects.toMatchObject({ code: "too_many_cache_breakpoints" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it("should report cache reads and writes in usage", async () => {
+      mockResults.mockResolvedValueOnce({
+        [Symbol.asyncIterator]: async function* () {
+          yield {
+            custom_id: "test-1",
+            result: {
+              type: "succeeded",
+              message: {
+                content: [{ type: "text", text: "Hi" }],
+                usage: {
+                  input_tokens: 10,
+                  output_tokens: 5,
+                  cache_read_input_tokens: 1000,
+                  cache_creation_input_tokens: 200,
+                },
+              },
+            },
+          };
+        },
+      });
+
+      const [result] = await model.getTextBatchResults("batch_abc123");
+
+      expect(result.usage).toEqual({
+        promptTokens: 1210,
+        completionTokens: 5,
+        totalTokens: 1215,
+        cacheReadTokens: 1000,
+        cacheWriteTokens: 200,
+      });
+    });
+  });
+
+  describe("messages", () => {
+    it("should send every turn and keep an assistant prefill last", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          messages: [
+            { role: "user", content: [{ type: "text", text: "Hi" }] },
+            { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+            { role: "user", content: [{ type: "text", text: "Name a color" }] },
+            {
+              role: "assistant",
+              content: [{ type: "text", text: "The color" }],
+            },
+          ],
+        },
+      ]);
+
+      const params = mockCreate.mock.calls[0][0].requests[0].params;
+      expect(params.messages).toEqual([
+        { role: "user", content: [{ type: "text", text: "Hi" }] },
+        { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+        { role: "user", content: [{ type: "text", text: "Name a color" }] },
+        { role: "assistant", content: [{ type: "text", text: "The color" }] },
+      ]);
+    });
+
+    it("should reject conversations that start with an assistant turn", async () => {
+      await expect(
+        model.createTextBatch([
+          {
+            customId: "test-1",
+            messages: [
+              { role: "assistant", content: [{ type: "text", text: "Hi" }] },
+            ],
+          },
+        ])
+      ).rejects.toMatchObject({ code: "invalid_messages" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tool calls", () => {
+    const tools = {
+      get_weather: {
+        description: "Get the weather for a city",
+        parameters: z.object({ city: z.string() }),
+      },
+    };
+    const input: ContentPart[] = [{ type: "text", text: "Weather in Paris?" }];
+
+    it("should map tools and tool choices", async () => {
+      await model.createToolBatch([
+        { customId: "test-1", input, tools },
+        { customId: "test-2", input, tools, toolChoice: "required" },
+        {
+          customId: "test-3",
+          input,
+          tools,
+          toolChoice: { name: "get_weather" },
+        },
+        { customId: "test-4", input, tools, toolChoice: "none" },
+      ]);
+
+      const params = mockCreate.mock.calls[0][0].requests.map(
+        (request: { params: unknown }) => request.params
+      );
+      expect(params[0].tools).toEqual([
+        {
+          name: "get_weather",
+          description: "Get the weather for a city",
+          input_schema: expect.objectContaining({
+            type: "object",
+            properties: { city: { type: "string" } },
+          }),
+        },
+      ]);
+      expect(params.map((param: any) => param.tool_choice)).toEqual([
+        { type: "auto" },
+        { type: "any" },
+        { type: "tool", name: "get_weather" },
+        undefined,
+      ]);
+      expect(params[3].tools).toBeUndefined();
+    });
+
+    it("should reject a tool choice that is not declared", async () => {
+      await expect(
+        model.createToolBatch([
+          { customId: "test-1", input, tools, toolChoice: { name: "other" } },
+        ])
+      ).rejects.toMatchObject({ code: "invalid_tools" });
+    });
+
+    it("should return the tool_use blocks of each result", async () => {
+      mockResults.mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            custom_id: "test-1",
+            result: {
+              type: "succeeded",
+              message: {
+                model: "claude-3-5-sonnet-20241022",
+                stop_reason: "tool_use",
+                content: [
+                  { type: "text", text: "Let me check." },
+                  {
+                    type: "tool_use",
+                    id: "toolu_1",
+                    name: "get_weather",
+                    input: { city: "Paris" },
+                  },
+                ],
+                usage: { input_tokens: 10, output_tokens: 5 },
+              },
+            },
+          };
+        })()
+      );
+
+      const [result] = await model.getToolBatchResults("batch_abc123");
+
+      expect(result.finishReason).toBe("tool_use");
+      expect(result.output).toEqual([
+        { id: "toolu_1", name: "get_weather", arguments: { city: "Paris" } },
+      ]);
+    });
+  });
+
+  describe("generation options", () => {
+    const requests: BatchRequest<ContentPart[]>[] = [
+      { customId: "test-1", input: [{ type: "text", text: "Hello" }] },
+      {
+        customId: "test-2",
+        input: [{ type: "text", text: "Hello" }],
+        generationOptions: { temperature: 0, maxOutputTokens: 64 },
+      },
+    ];
+
+    it("should default max_tokens when no limit is set", async () => {
+      await model.createTextBatch(requests.slice(0, 1));
+
+      const params = mockCreate.mock.calls[0][0].requests[0].params;
+      expect(params.max_tokens).toBe(2048);
+      expect(params.temperature).toBeUndefined();
+    });
+
+    it("should merge model defaults with request overrides", async () => {
+      model = new AnthropicLanguageModel("claude-3-opus-20240229", {
+        apiKey: "test-api-key",
+        generationOptions: { temperature: 0.7, topP: 0.9, stop: ["END"] },
+      });
+
+      await model.createTextBatch(requests);
+
+      const [first, second] = mockCreate.mock.calls[0][0].requests;
+      expect(first.params).toMatchObject({
+        max_tokens: 2048,
+        temperature: 0.7,
+        top_p: 0.9,
+        stop_sequences: ["END"],
+      });
+      expect(second.params).toMatchObject({
+        max_tokens: 64,
+        temperature: 0,
+        top_p: 0.9,
+      });
+    });
+
+    it("should reject seed before submitting", async () => {
+      await expect(
+        model.createTextBatch([
+          { ...requests[0], generationOptions: { seed: 42 } },
+        ])
+      ).rejects.toMatchObject({ code: "unsupported_generation_option" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createTextBatch", () => {
+    it("should not force the format_response tool", async () => {
+      const requests: BatchRequest<ContentPart[]>[] = [
+        {
+          customId: "test-1",
+          input: [{ type: "text", text: "Summarise this" }],
+        },
+      ];
+
+      const batchId = await model.createTextBatch(requests);
+
+      const createParams = mockCreate.mock.calls[0][0];
+      expect(batchId).toBe("batch_abc123");
+      expect(createParams.requests[0].params.tools).toBeUndefined();
+      expect(createParams.requests[0].params.tool_choice).toBeUndefined();
+      expect(createParams.requests[0].params.messages).toEqual([
+        { role: "user", content: [{ type: "text", text: "Summarise this" }] },
+      ]);
+    });
+  });
+
   describe("getBatch", () => {
     it("should retrieve batch status correctly", async () => {
       // Mock the Anthropic API response
@@ -275,6 +617,56 @@ describe("AnthropicLanguageModel", () => {
     });
   });
 
+  describe("listBatches", () => {
+    it("should map listed batches and pass the cursor as after_id", async () => {
+      mockList.mockReturnValue(
+        (async function* () {
+          yield {
+            id: "batch_def456",
+            processing_status: "in_progress",
+            request_counts: {
+              processing: 3,
+              succeeded: 1,
+              errored: 0,
+              canceled: 0,
+              expired: 0,
+            },
+            created_at: "2024-02-12T00:00:00Z",
+            ended_at: null,
+            expires_at: "2024-02-13T00:00:00Z",
+          };
+        })()
+      );
+
+      const batches = [];
+      for await (const batch of model.listBatches({ after: "batch_abc123" })) {
+        batches.push(batch);
+      }
+
+      expect(mockList).toHaveBeenCalledWith({
+        limit: 100,
+        after_id: "batch_abc123",
+      });
+      expect(batches).toEqual([
+        {
+          id: "batch_def456",
+          status: "in_progress",
+          requestCounts: {
+            total: 4,
+            completed: 1,
+            failed: 0,
+            processing: 3,
+            cancelled: 0,
+            expired: 0,
+          },
+          createdAt: new Date("2024-02-12T00:00:00Z"),
+          completedAt: undefined,
+          expiresAt: new Date("2024-02-13T00:00:00Z"),
+        },
+      ]);
+    });
+  });
+
   describe("getBatchResults", () => {
     it("should retrieve and parse results correctly", async () => {
       // Mock the Anthropic API responses
@@ -313,10 +705,13 @@ describe("AnthropicLanguageModel", () => {
             {
               custom_id: "test-2",
               result: {
-                type: "failed",
+                type: "errored",
                 error: {
-                  type: "api_error",
-                  message: "Failed to process request",
+                  type: "error",
+                  error: {
+                    type: "api_error",
+                    message: "Failed to process request",
+                  },
                 },
               },
             },
@@ -351,8 +746,8 @@ describe("AnthropicLanguageModel", () => {
       expect(results[1].customId).toBe("test-2");
       expect(results[1].output).toBeUndefined();
       expect(results[1].error).toEqual({
-        code: "failed",
-        message: "Request failed",
+        code: "api_error",
+        message: "Failed to process request",
       });
     });
 
@@ -374,10 +769,16 @@ describe("AnthropicLanguageModel", () => {
               result: {
                 type: "errored",
                 error: {
-                  message: "Rate limit exceeded",
+                  type: "error",
+                  error: {
+                    type: "invalid_request_error",
+                    message: "max_tokens: Field required",
+                  },
                 },
               },
             },
+            { custom_id: "test-2", result: { type: "expired" } },
+            { custom_id: "test-3", result: { type: "canceled" } },
           ];
           let index = 0;
           return {
@@ -395,12 +796,20 @@ describe("AnthropicLanguageModel", () => {
       const results = await model.getBatchResults("batch_abc123");
 
       // Verify the results
-      expect(results).toHaveLength(1);
+      expect(results).toHaveLength(3);
       expect(results[0].customId).toBe("test-1");
       expect(results[0].output).toBeUndefined();
       expect(results[0].error).toEqual({
-        code: "errored",
-        message: "Request failed",
+        code: "invalid_request_error",
+        message: "max_tokens: Field required",
+      });
+      expect(results[1].error).toEqual({
+        code: "expired",
+        message: "Request expired before it was processed",
+      });
+      expect(results[2].error).toEqual({
+        code: "canceled",
+        message: "Request was canceled before it was processed",
       });
     });
 
@@ -429,6 +838,47 @@ describe("AnthropicLanguageModel", () => {
     });
   });
 
+  describe("getTextBatchResults", () => {
+    it("should join text blocks and report the stop reason", async () => {
+      mockResults.mockResolvedValueOnce({
+        [Symbol.asyncIterator]: () => {
+          const items = [
+            {
+              custom_id: "test-1",
+              result: {
+                type: "succeeded",
+                message: {
+                  content: [
+                    { type: "text", text: "Hello " },
+                    { type: "text", text: "there" },
+                  ],
+                  stop_reason: "end_turn",
+                  usage: { input_tokens: 10, output_tokens: 2 },
+                },
+              },
+            },
+          ];
+          let index = 0;
+          return {
+            async next(): Promise<IteratorResult<any>> {
+              if (index < items.length) {
+                return { value: items[index++], done: false };
+              }
+              return { value: undefined, done: true };
+            },
+          };
+        },
+      });
+
+      const results = await model.getTextBatchResults("batch_abc123");
+
+      expect(results).toHaveLength(1);
+      expect(results[0].output).toBe("Hello there");
+      expect(results[0].finishReason).toBe("end_turn");
+      expect(results[0].usage?.totalTokens).toBe(12);
+    });
+  });
+
   describe("cancelBatch", () => {
     it("should cancel a batch successfully", async () => {
       // Mock the Anthropic API
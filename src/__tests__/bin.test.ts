@@ -0,0 +1,124 @@
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+
+const run = promisify(execFile);
+
+describe("batch-ai bin", () => {
+  const root = path.resolve(__dirname, "..", "..");
+  let directory: string;
+
+  const runBin = async (
+    ...args: string[]
+  ): Promise<{ code: number; stdout: string; stderr: string }> => {
+    try {
+      const { stdout, stderr } = await run(
+        process.execPath,
+        [path.join(directory, "bin.js"), ...args],
+        {
+          cwd: directory,
+          env: { ...process.env, OPENAI_API_KEY: "test" },
+          timeout: 20000,
+        }
+      );
+      return { code: 0, stdout, stderr };
+    } catch (error) {
+      const { code, stdout, stderr } = error as {
+        code: number;
+        stdout: string;
+        stderr: string;
+      };
+      return { code, stdout, stderr };
+    }
+  };
+
+  beforeAll(async () => {
+    // Compiled like the CommonJS build the package's bin points to, inside
+    // node_modules so that dependencies resolve
+    await fs.mkdir(path.join(root, "node_modules", ".cache"), {
+      recursive: true,
+    });
+    directory = await fs.mkdtemp(
+      path.join(root, "node_modules", ".cache", "batch-ai-bin-")
+    );
+    await run(
+      process.execPath,
+      [
+        path.join(root, "node_modules", "typescript", "bin", "tsc"),
+        "-p",
+        path.join(root, "tsconfig.cjs.json"),
+        "--outDir",
+        directory,
+      ],
+      { timeout: 120000 }
+    );
+    await fs.writeFile(
+      path.join(directory, "package.json"),
+      JSON.stringify({ type: "commonjs" })
+    );
+    await fs.writeFile(
+      path.join(directory, "schema.mjs"),
+      'import { z } from "zod";\nexport default z.object({ echo: z.string() });\n'
+    );
+    await fs.writeFile(
+      path.join(directory, "schema.cjs"),
+      'const { z } = require("zod");\nexports.echo = z.object({ echo: z.string() });\n'
+    );
+    await fs.writeFile(
+      path.join(directory, "requests.jsonl"),
+      '{"customId":"request-0","input":[]}\n'
+    );
+  }, 150000);
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should print usage", async () => {
+    const { code, stdout } = await runBin("--help");
+
+    expect(code).toBe(0);
+    expect(stdout).toContain("Usage: batch-ai <command>");
+  });
+
+  it("should import ES module schemas", async () => {
+    // The batch fails validation once the schema is loaded, before anything
+    // is sent
+    const { code, stderr } = await runBin(
+      "submit",
+      "--model",
+      "gpt-4o",
+      "--requests",
+      "requests.jsonl",
+      "--schema",
+      "schema.mjs"
+    );
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("invalid_batch");
+  });
+
+  it("should import CommonJS schemas by export name", async () => {
+    const loaded = await runBin(
+      "submit",
+      "--model",
+      "gpt-4o",
+      "--requests",
+      "requests.jsonl",
+      "--schema",
+      "schema.cjs",
+      "--export",
+      "echo"
+    );
+    const missing = await runBin(
+      "results",
+      "batch_123",
+      "--schema",
+      "schema.cjs"
+    );
+
+    expect(loaded.stderr).toContain("invalid_batch");
+    expect(missing.stderr).toContain("invalid_schema_module");
+  });
+});
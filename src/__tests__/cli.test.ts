@@ -0,0 +1,228 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import { runCli } from "../cli";
+import { MockLanguageModel } from "../providers/mock";
+import { BatchError, MockModelConfig } from "../types";
+
+describe("runCli", () => {
+  let directory: string;
+  let requestsPath: string;
+  let model: MockLanguageModel;
+  let stdout: string;
+  let stderr: string;
+
+  const schemaPath = path.join(os.tmpdir(), "batch-ai-cli-schema.js");
+  const makeModel = (config: Partial<MockModelConfig> = {}) =>
+    new MockLanguageModel({
+      modelId: "mock-model",
+      responder: (request) => {
+        const text = request.input?.[0].text ?? "";
+        if (text === "fail") {
+          throw new BatchError("Refused, sorry", "content_filter");
+        }
+        return { echo: text };
+      },
+      ...config,
+    });
+
+  const run = (...args: string[]) =>
+    runCli(args, {
+      stdout: (text) => {
+        stdout += text;
+      },
+      stderr: (text) => {
+        stderr += text;
+      },
+      createModel: () => model,
+      // Jest can't run native dynamic imports, see bin.test.ts for those
+      importModule: async (url) => {
+        if (url !== pathToFileURL(schemaPath).href) {
+          throw new Error(`Cannot find module ${url}`);
+        }
+        return {
+          default: z.object({ echo: z.string() }),
+          other: "not a schema",
+        };
+      },
+    });
+
+  const submit = async () => {
+    await run("submit", "--model", "mock-model", "--requests", requestsPath);
+    const batchId = stdout.trim();
+    stdout = "";
+    return batchId;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-ai-cli-"));
+    requestsPath = path.join(directory, "requests.jsonl");
+    await fs.writeFile(
+      requestsPath,
+      [
+        { customId: "request-0", input: [{ type: "text", text: "Hi, there" }] },
+        { customId: "request-1", input: [{ type: "text", text: "fail" }] },
+      ]
+        .map((request) => JSON.stringify(request))
+        .join("\n") + "\n"
+    );
+    model = makeModel();
+    stdout = "";
+    stderr = "";
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should submit requests from a JSONL file with a schema module", async () => {
+    const code = await run(
+      "submit",
+      "--model",
+      "mock-model",
+      "--requests",
+      requestsPath,
+      "--schema",
+      schemaPath
+    );
+
+    expect(code).toBe(0);
+    const batchId = stdout.trim();
+    expect(model.getSubmittedRequests(batchId)).toHaveLength(2);
+    expect((await model.getBatchResults(batchId))[0].output).toEqual({
+      echo: "Hi, there",
+    });
+  });
+
+  it("should reject a schema module without the schema export", async () => {
+    const code = await run(
+      "submit",
+      "--model",
+      "mock-model",
+      "--requests",
+      requestsPath,
+      "--schema",
+      schemaPath,
+      "--export",
+      "other"
+    );
+
+    expect(code).toBe(1);
+    expect(stderr).toContain("invalid_schema_module");
+  });
+
+  it("should require a model ID to submit", async () => {
+    expect(await run("submit", "--requests", requestsPath)).toBe(1);
+    expect(stderr).toContain("invalid_arguments");
+  });
+
+  it("should report unreadable request files", async () => {
+    await fs.writeFile(requestsPath, '{"text":"Hi"}\n{not json\n');
+
+    expect(
+      await run("submit", "--model", "mock-model", "--requests", requestsPath)
+    ).toBe(1);
+    expect(stderr).toContain("Line 2");
+  });
+
+  it("should print a batch's status", async () => {
+    const batchId = await submit();
+
+    expect(await run("status", batchId)).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({
+      id: batchId,
+      status: "completed",
+      requestCounts: { total: 2, completed: 1, failed: 1 },
+    });
+  });
+
+  it("should wait for a batch and fail when it doesn't complete", async () => {
+    model = makeModel({ outcome: "expired", processingDelay: 200 });
+    const batchId = await submit();
+
+    expect(await run("wait", batchId, "--interval", "5")).toBe(1);
+    expect(JSON.parse(stdout).status).toBe("expired");
+    expect(stderr).toContain(`${batchId}\tin_progress`);
+  });
+
+  it("should write results as CSV with flattened outputs", async () => {
+    const batchId = await submit();
+    const outputPath = path.join(directory, "results.csv");
+
+    expect(
+      await run(
+        "results",
+        batchId,
+        "--schema",
+        schemaPath,
+        "--output",
+        outputPath
+      )
+    ).toBe(0);
+    expect(await fs.readFile(outputPath, "utf8")).toBe(
+      [
+        "customId,output.echo,errorCode,errorMessage,promptTokens,completionTokens,totalTokens",
+        'request-0,"Hi, there",,,3,5,8',
+        'request-1,,content_filter,"Refused, sorry",,,',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should print results as JSONL", async () => {
+    const batchId = await submit();
+
+    expect(await run("results", batchId)).toBe(0);
+    const lines = stdout
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines.map((result) => result.customId)).toEqual([
+      "request-0",
+      "request-1",
+    ]);
+  });
+
+  it("should not write results of an unfinished batch", async () => {
+    model = makeModel({ processingDelay: 1000 });
+    const batchId = await submit();
+
+    expect(await run("results", batchId)).toBe(1);
+    expect(stderr).toContain("results_not_ready");
+  });
+
+  it("should cancel a batch", async () => {
+    model = makeModel({ processingDelay: 1000 });
+    const batchId = await submit();
+
+    expect(await run("cancel", batchId)).toBe(0);
+    expect((await model.getBatch(batchId)).status).toBe("cancelled");
+  });
+
+  it("should list batches newest first", async () => {
+    const first = await submit();
+    const second = await submit();
+
+    expect(await run("list", "--limit", "5")).toBe(0);
+    expect(
+      stdout
+        .trim()
+        .split("\n")
+        .map((line) => line.split("\t")[0])
+    ).toEqual([second, first]);
+  });
+
+  it("should reject unknown commands and options", async () => {
+    expect(await run("resubmit")).toBe(1);
+    expect(await run("list", "--verbose")).toBe(1);
+    expect(await run("list", "--provider", "google")).toBe(1);
+    expect(stderr.match(/invalid_arguments/g)).toHaveLength(3);
+  });
+
+  it("should print usage", async () => {
+    expect(await run("--help")).toBe(0);
+    expect(stdout).toContain("Usage: batch-ai <command>");
+  });
+});
@@ -0,0 +1,122 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { parseDataUrl, resolveFileParts } from "../content";
+import { BatchRequest, ContentPart } from "../types";
+
+describe("resolveFileParts", () => {
+  let directory: string;
+
+  const PNG = Buffer.from("89504e470d0a1a0a0000000d", "hex");
+  const PDF = Buffer.from("%PDF-1.7\n");
+
+  const fileRequest = (
+    filePath: string,
+    mediaType?: string
+  ): BatchRequest<ContentPart[]> => ({
+    customId: "request-0",
+    input: [
+      { type: "text", text: "Describe this" },
+      { type: "file", file: { path: filePath, mediaType } },
+    ],
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-content-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should inline images detected by extension", async () => {
+    const filePath = path.join(directory, "photo.PNG");
+    await fs.writeFile(filePath, PNG);
+
+    const [request] = await resolveFileParts([fileRequest(filePath)]);
+
+    expect(request.input).toEqual([
+      { type: "text", text: "Describe this" },
+      {
+        type: "image_base64",
+        image_base64: { data: PNG.toString("base64"), mediaType: "image/png" },
+      },
+    ]);
+  });
+
+  it("should detect PDFs from their contents", async () => {
+    const filePath = path.join(directory, "upload");
+    await fs.writeFile(filePath, PDF);
+
+    const [request] = await resolveFileParts([
+      {
+        customId: "request-0",
+        messages: [
+          {
+            role: "user",
+            content: [{ type: "file", file: { path: filePath } }],
+          },
+        ],
+      },
+    ]);
+
+    expect(request.messages?.[0].content).toEqual([
+      { type: "document", document: { data: PDF.toString("base64") } },
+    ]);
+  });
+
+  it("should read a file attached to many requests once", async () => {
+    const filePath = path.join(directory, "photo.png");
+    await fs.writeFile(filePath, PNG);
+    const readFile = jest.spyOn(fs, "readFile");
+
+    await resolveFileParts([fileRequest(filePath), fileRequest(filePath)]);
+
+    expect(readFile).toHaveBeenCalledTimes(1);
+    readFile.mockRestore();
+  });
+
+  it("should keep the cache marker of a file part", async () => {
+    const filePath = path.join(directory, "photo.png");
+    await fs.writeFile(filePath, PNG);
+
+    const [cached, uncached] = await resolveFileParts([
+      {
+        customId: "request-0",
+        input: [{ type: "file", file: { path: filePath }, cache: true }],
+      },
+      fileRequest(filePath),
+    ]);
+
+    expect(cached.input?.[0]).toMatchObject({
+      type: "image_base64",
+      cache: true,
+    });
+    expect(uncached.input?.[1].cache).toBeUndefined();
+  });
+
+  it("should reject files that are neither images nor PDFs", async () => {
+    const filePath = path.join(directory, "notes.txt");
+    await fs.writeFile(filePath, "hello");
+
+    await expect(
+      resolveFileParts([fileRequest(filePath)])
+    ).rejects.toMatchObject({ code: "unsupported_content_part" });
+  });
+
+  it("should report missing files", async () => {
+    await expect(
+      resolveFileParts([fileRequest(path.join(directory, "missing.png"))])
+    ).rejects.toMatchObject({ code: "file_read_failed" });
+  });
+});
+
+describe("parseDataUrl", () => {
+  it("should split base64 data URLs", () => {
+    expect(parseDataUrl("data:image/webp;base64,AAAA")).toEqual({
+      mediaType: "image/webp",
+      data: "AAAA",
+    });
+    expect(parseDataUrl("https://example.com/image.png")).toBeUndefined();
+  });
+});
@@ -0,0 +1,180 @@
+import { z } from "zod";
+import { estimateBatchCost, getModelPricing, summarizeCost } from "../cost";
+import { MockLanguageModel } from "../providers/mock";
+import { BatchError, BatchRequest, ContentPart } from "../types";
+
+describe("getModelPricing", () => {
+  it("should match dated snapshots by the longest prefix", () => {
+    expect(getModelPricing("gpt-4o-2024-08-06")).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+    expect(getModelPricing("gpt-4o-mini-2024-07-18")).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+  });
+
+  it("should prefer custom pricing", () => {
+    expect(
+      getModelPricing("gpt-4o", { "gpt-4o": { input: 1, output: 2 } })
+    ).toEqual({ input: 1, output: 2 });
+  });
+
+  it("should reject unknown models", () => {
+    expect(() => getModelPricing("my-local-model")).toThrow(BatchError);
+  });
+});
+
+describe("estimateBatchCost", () => {
+  const model = new MockLanguageModel({
+    modelId: "gpt-4o",
+    responder: () => ({}),
+  });
+
+  const requests: BatchRequest<ContentPart[]>[] = [
+    {
+      customId: "request-0",
+      // 40 characters of prompt and 20 of system prompt
+      input: [{ type: "text", text: "a".repeat(40) }],
+      systemPrompt: "b".repeat(20),
+    },
+    {
+      customId: "request-1",
+      input: [
+        { type: "text", text: "c".repeat(40) },
+        { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+      ],
+    },
+  ];
+
+  it("should apply the batch discount to estimated tokens", () => {
+    const estimate = estimateBatchCost({
+      model,
+      requests,
+      expectedOutputTokens: 100,
+    });
+
+    // 10 overhead + 5 system + 10 prompt, then 10 overhead + 10 prompt + 765
+    expect(estimate.inputTokens).toBe(810);
+    expect(estimate.outputTokens).toBe(200);
+    expect(estimate.requests).toBe(2);
+    expect(estimate.inputCost).toBeCloseTo((810 / 1e6) * 2.5 * 0.5);
+    expect(estimate.outputCost).toBeCloseTo((200 / 1e6) * 10 * 0.5);
+    expect(estimate.totalCost).toBeCloseTo(
+      estimate.inputCost + estimate.outputCost
+    );
+  });
+
+  it("should count the schema once per request", () => {
+    const withoutSchema = estimateBatchCost({
+      model,
+      requests,
+      expectedOutputTokens: 0,
+    });
+    const withSchema = estimateBatchCost({
+      model,
+      requests,
+      outputSchema: z.object({ sentiment: z.enum(["positive", "negative"]) }),
+      expectedOutputTokens: 0,
+    });
+
+    const schemaTokens = withSchema.inputTokens - withoutSchema.inputTokens;
+    expect(schemaTokens).toBeGreaterThan(0);
+    expect(schemaTokens % 2).toBe(0);
+  });
+});
+
+describe("summarizeCost", () => {
+  it("should price reported usage per model", () => {
+    const summary = summarizeCost([
+      {
+        customId: "a",
+        model: "gpt-4o-2024-08-06",
+        usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+      },
+      {
+        customId: "b",
+        model: "claude-3-5-sonnet-20241022",
+        usage: { promptTokens: 2000, completionTokens: 100, totalTokens: 2100 },
+      },
+      {
+        customId: "c",
+        model: "gpt-4o-2024-08-06",
+        usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+      },
+      { customId: "d", error: { code: "server_error", message: "Failed" } },
+    ]);
+
+    expect(Object.keys(summary.models)).toEqual([
+      "gpt-4o-2024-08-06",
+      "claude-3-5-sonnet-20241022",
+    ]);
+    expect(summary.models["gpt-4o-2024-08-06"]).toMatchObject({
+      requests: 2,
+      inputTokens: 2000,
+      outputTokens: 1000,
+    });
+    expect(summary.models["gpt-4o-2024-08-06"].totalCost).toBeCloseTo(
+      ((2000 / 1e6) * 2.5 + (1000 / 1e6) * 10) * 0.5
+    );
+    expect(summary.totalCost).toBeCloseTo(
+      summary.models["gpt-4o-2024-08-06"].totalCost +
+        ((2000 / 1e6) * 3 + (100 / 1e6) * 15) * 0.5
+    );
+  });
+
+  it("should price cache reads and writes separately", () => {
+    const summary = summarizeCost([
+      {
+        customId: "a",
+        model: "claude-3-5-sonnet-20241022",
+        usage: {
+          promptTokens: 1_000_000,
+          completionTokens: 0,
+          totalTokens: 1_000_000,
+          cacheReadTokens: 600_000,
+          cacheWriteTokens: 200_000,
+        },
+      },
+    ]);
+
+    // 200k uncached at $3, 600k read at $0.30 and 200k written at $3.75,
+    // all at half price
+    expect(summary.models["claude-3-5-sonnet-20241022"]).toMatchObject({
+      cacheReadTokens: 600_000,
+      cacheWriteTokens: 200_000,
+    });
+    expect(summary.totalCost).toBeCloseTo((0.6 + 0.18 + 0.75) * 0.5);
+  });
+
+  it("should fall back to the given model ID", () => {
+    const results = [
+      {
+        customId: "a",
+        usage: { promptTokens: 10, completionTokens: 10, totalTokens: 20 },
+      },
+    ];
+
+    expect(() => summarizeCost(results)).toThrow(BatchError);
+    expect(
+      Object.keys(summarizeCost(results, { modelId: "gpt-4o-mini" }).models)
+    ).toEqual(["gpt-4o-mini"]);
+  });
+
+  it("should price embedding usage by input tokens", () => {
+    const summary = summarizeCost([
+      {
+        customId: "a",
+        model: "text-embedding-3-small",
+        usage: {
+          promptTokens: 1_000_000,
+          completionTokens: 0,
+          totalTokens: 1_000_000,
+        },
+      },
+    ]);
+
+    expect(summary.totalCost).toBeCloseTo(0.02 * 0.5);
+  });
+});
@@ -0,0 +1,184 @@
+import { z } from "zod";
+import { fallbackModel } from "../index";
+import { FallbackLanguageModel } from "../providers/fallback";
+import { MockLanguageModel } from "../providers/mock";
+import {
+  BatchError,
+  BatchRequest,
+  ContentPart,
+  MockModelConfig,
+} from "../types";
+
+describe("FallbackLanguageModel", () => {
+  const schema = z.object({ echo: z.string() });
+  const requests: BatchRequest<ContentPart[]>[] = [
+    { customId: "request-0", input: [{ type: "text", text: "Hi" }] },
+    { customId: "request-1", input: [{ type: "text", text: "There" }] },
+  ];
+
+  const makeModel = (config: Partial<MockModelConfig> = {}) =>
+    new MockLanguageModel({
+      responder: (request) => ({ echo: request.input?.[0].text }),
+      ...config,
+    });
+
+  it("should resubmit an expired batch to the next model", async () => {
+    const primary = makeModel({ modelId: "primary", outcome: "expired" });
+    const secondary = makeModel({ modelId: "secondary" });
+    const model = fallbackModel([primary, secondary]);
+
+    const batchId = await model.createBatch(requests, schema);
+    await expect(model.getBatch(batchId)).resolves.toMatchObject({
+      id: batchId,
+      status: "completed",
+      requestCounts: { total: 2, completed: 2, failed: 0 },
+    });
+
+    const results = await model.getBatchResults(batchId);
+    expect(results.map((result) => result.output)).toEqual([
+      { echo: "Hi" },
+      { echo: "There" },
+    ]);
+    expect(results.every((result) => result.model === "secondary")).toBe(true);
+  });
+
+  it("should only resubmit failed requests and keep request order", async () => {
+    const primary = makeModel({
+      modelId: "primary",
+      responder: (request) => {
+        if (request.customId === "request-0") {
+          throw new Error("Overloaded");
+        }
+        return { echo: request.input?.[0].text };
+      },
+    });
+    const secondary = makeModel({ modelId: "secondary" });
+    const model = fallbackModel([primary, secondary]);
+
+    const batchId = await model.createBatch(requests, schema);
+    await model.getBatch(batchId);
+    const results = await model.getBatchResults(batchId);
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        customId: "request-0",
+        model: "secondary",
+        provider: "mock",
+      }),
+      expect.objectContaining({
+        customId: "request-1",
+        model: "primary",
+        provider: "mock",
+      }),
+    ]);
+    expect(
+      secondary
+        .getSubmittedRequests("mock_batch_1")
+        .map((request) => request.customId)
+    ).toEqual(["request-0"]);
+  });
+
+  it("should fall through models that reject the batch", async () => {
+    const model = fallbackModel([
+      makeModel({ modelId: "primary", rejectCreate: true }),
+      makeModel({ modelId: "secondary" }),
+    ]);
+
+    const batchId = await model.createTextBatch(requests);
+    await model.getBatch(batchId);
+    const results = await model.getTextBatchResults(batchId);
+
+    expect(results.map((result) => result.model)).toEqual([
+      "secondary",
+      "secondary",
+    ]);
+  });
+
+  it("should fall back tool call batches", async () => {
+    const tools = { echo: { parameters: z.object({ text: z.string() }) } };
+    const model = fallbackModel([
+      makeModel({ rejectCreate: true }),
+      makeModel({
+        modelId: "secondary",
+        responder: (request) => [
+          { id: "call_1", name: "echo", arguments: { text: request.customId } },
+        ],
+      }),
+    ]);
+
+    const batchId = await model.createToolBatch(
+      requests.map((request) => ({ ...request, tools }))
+    );
+    await model.getBatch(batchId);
+    const results = await model.getToolBatchResults(batchId);
+
+    expect(results.map((result) => result.output?.[0].arguments)).toEqual([
+      { text: "request-0" },
+      { text: "request-1" },
+    ]);
+  });
+
+  it("should throw when no model accepts the batch", async () => {
+    const model = fallbackModel([
+      makeModel({ rejectCreate: true }),
+      makeModel({ rejectCreate: true }),
+    ]);
+
+    await expect(model.createBatch(requests, schema)).rejects.toMatchObject({
+      code: "batch_creation_failed",
+    });
+  });
+
+  it("should keep the last errors when every model fails", async () => {
+    const model = fallbackModel([
+      makeModel({ modelId: "primary", outcome: "expired" }),
+      makeModel({ modelId: "secondary", outcome: "expired" }),
+    ]);
+
+    const batchId = await model.createBatch(requests, schema);
+    await expect(model.getBatch(batchId)).resolves.toMatchObject({
+      status: "expired",
+      requestCounts: { total: 2, completed: 0, failed: 2 },
+    });
+    const results = await model.getBatchResults(batchId);
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "expired",
+      "expired",
+    ]);
+  });
+
+  it("should not return results before the batch ends", async () => {
+    const model = fallbackModel([
+      makeModel({ processingDelay: 10_000 }),
+      makeModel(),
+    ]);
+
+    const batchId = await model.createBatch(requests, schema);
+
+    await expect(model.getBatch(batchId)).resolves.toMatchObject({
+      status: "in_progress",
+    });
+    await expect(model.getBatchResults(batchId)).rejects.toMatchObject({
+      code: "results_not_ready",
+    });
+  });
+
+  it("should not fall back after the batch is cancelled", async () => {
+    const primary = makeModel({ processingDelay: 10_000 });
+    const secondary = makeModel();
+    const createBatch = jest.spyOn(secondary, "createBatch");
+    const model = fallbackModel([primary, secondary]);
+
+    const batchId = await model.createBatch(requests, schema);
+    await model.cancelBatch(batchId);
+
+    await expect(model.getBatch(batchId)).resolves.toMatchObject({
+      status: "cancelled",
+    });
+    expect(createBatch).not.toHaveBeenCalled();
+  });
+
+  it("should require at least one model", () => {
+    expect(() => new FallbackLanguageModel([])).toThrow(BatchError);
+  });
+});
@@ -0,0 +1,306 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  formatCsvResults,
+  readCsvRequests,
+  readJsonlRequests,
+  writeCsvResults,
+  writeJsonlResults,
+} from "../files";
+import { BatchError, BatchResponse } from "../types";
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
+describe("files", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-files-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, content: string) => {
+    const filePath = path.join(directory, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  describe("readJsonlRequests", () => {
+    it("should read BatchRequests as is and map other records", async () => {
+      const filePath = await writeFile(
+        "requests.jsonl",
+        [
+          JSON.stringify({
+            customId: "full",
+            input: [{ type: "text", text: "Hi" }],
+          }),
+          "",
+          JSON.stringify({ id: 7, review: "Great", photo: "https://a.png" }),
+          JSON.stringify({ review: "Awful" }),
+        ].join("\r\n")
+      );
+
+      const requests = await collect(
+        readJsonlRequests(filePath, {
+          columns: { customId: "id", text: "review", imageUrl: "photo" },
+          systemPrompt: "Classify the review",
+        })
+      );
+
+      expect(requests).toEqual([
+        { customId: "full", input: [{ type: "text", text: "Hi" }] },
+        {
+          customId: "7",
+          input: [
+            { type: "text", text: "Great" },
+            { type: "image_url", image_url: { url: "https://a.png" } },
+          ],
+          systemPrompt: "Classify the review",
+        },
+        {
+          customId: "request-2",
+          input: [{ type: "text", text: "Awful" }],
+          systemPrompt: "Classify the review",
+        },
+      ]);
+    });
+
+    it("should read text inputs and message contents as text parts", async () => {
+      const filePath = await writeFile(
+        "requests.jsonl",
+        [
+          JSON.stringify({ customId: "a", input: "Translate this" }),
+          JSON.stringify({
+            customId: "b",
+            messages: [{ role: "user", content: "Hi" }],
+          }),
+        ].join("\n")
+      );
+
+      expect(await collect(readJsonlRequests(filePath))).toEqual([
+        { customId: "a", input: [{ type: "text", text: "Translate this" }] },
+        {
+          customId: "b",
+          messages: [{ role: "user", content: [{ type: "text", text: "Hi" }] }],
+        },
+      ]);
+    });
+
+    it("should reject lines that aren't JSON objects", async () => {
+      for (const line of ["null", "5", '"x"', "[]"]) {
+        const filePath = await writeFile("requests.jsonl", `${line}\n`);
+
+        await expect(
+          collect(readJsonlRequests(filePath))
+        ).rejects.toMatchObject({
+          code: "invalid_requests_file",
+          message: expect.stringContaining("Line 1"),
+        });
+      }
+    });
+
+    it("should reject lines with both an input and messages", async () => {
+      const filePath = await writeFile(
+        "requests.jsonl",
+        JSON.stringify({
+          customId: "a",
+          input: "Hi",
+          messages: [{ role: "user", content: "Hi" }],
+        })
+      );
+
+      await expect(collect(readJsonlRequests(filePath))).rejects.toMatchObject({
+        code: "invalid_requests_file",
+        message: expect.stringContaining("both an input and messages"),
+      });
+    });
+
+    it("should reject inputs that aren't content parts", async () => {
+      const filePath = await writeFile(
+        "requests.jsonl",
+        '{"customId":"a","input":[{"type":"text","text":"Hi"}]}\n{"customId":"b","input":{"text":"Hi"}}\n'
+      );
+
+      await expect(collect(readJsonlRequests(filePath))).rejects.toMatchObject({
+        code: "invalid_requests_file",
+        message: expect.stringContaining("Line 2"),
+      });
+    });
+
+    it("should report the line of invalid JSON", async () => {
+      const filePath = await writeFile(
+        "requests.jsonl",
+        '{"text":"Hi"}\n{not json}\n'
+      );
+
+      await expect(collect(readJsonlRequests(filePath))).rejects.toMatchObject({
+        code: "invalid_requests_file",
+        message: expect.stringContaining("Line 2"),
+      });
+    });
+
+    it("should report a missing file", async () => {
+      await expect(
+        collect(readJsonlRequests(path.join(directory, "missing.jsonl")))
+      ).rejects.toMatchObject({ code: "file_read_failed" });
+    });
+  });
+
+  describe("readCsvRequests", () => {
+    it("should fill the template from each row", async () => {
+      const filePath = await writeFile(
+        "reviews.csv",
+        [
+          "customId,product,review,system",
+          'a,Lamp,"Bright, ""warm"" light",Be brief',
+          'b,Desk,"Wobbly',
+          'legs",',
+          "",
+        ].join("\n")
+      );
+
+      const requests = await collect(
+        readCsvRequests(filePath, {
+          template: "Review of {{ product }}: {{review}}",
+          columns: { systemPrompt: "system" },
+        })
+      );
+
+      expect(requests).toEqual([
+        {
+          customId: "a",
+          input: [
+            { type: "text", text: 'Review of Lamp: Bright, "warm" light' },
+          ],
+          systemPrompt: "Be brief",
+        },
+        {
+          customId: "b",
+          input: [{ type: "text", text: "Review of Desk: Wobbly\nlegs" }],
+        },
+      ]);
+    });
+
+    it("should read rows split across chunks", async () => {
+      const rows = Array.from(
+        { length: 5000 },
+        (_, index) => `row-${index},"Text, number ${index}"`
+      );
+      const filePath = await writeFile(
+        "large.csv",
+        ["customId,text", ...rows].join("\n")
+      );
+
+      const requests = await collect(readCsvRequests(filePath));
+
+      expect(requests).toHaveLength(5000);
+      expect(requests[4999]).toEqual({
+        customId: "row-4999",
+        input: [{ type: "text", text: "Text, number 4999" }],
+      });
+    });
+
+    it("should skip a byte order mark before the header", async () => {
+      const filePath = await writeFile(
+        "reviews.csv",
+        "\uFEFFcustomId,text\nreview-1,Great\n"
+      );
+
+      expect(await collect(readCsvRequests(filePath))).toEqual([
+        { customId: "review-1", input: [{ type: "text", text: "Great" }] },
+      ]);
+    });
+
+    it("should reject rows that don't match the header", async () => {
+      const filePath = await writeFile("bad.csv", "customId,text\na,b,c\n");
+
+      await expect(collect(readCsvRequests(filePath))).rejects.toMatchObject({
+        code: "invalid_requests_file",
+        message: expect.stringContaining("Row 1"),
+      });
+    });
+
+    it("should reject template fields missing from the header", async () => {
+      const filePath = await writeFile("reviews.csv", "text\nHi\n");
+
+      await expect(
+        collect(readCsvRequests(filePath, { template: "{{review}}" }))
+      ).rejects.toThrow(BatchError);
+    });
+  });
+
+  describe("result writers", () => {
+    const results: BatchResponse<unknown>[] = [
+      {
+        customId: "a",
+        output: { sentiment: "positive", scores: { positive: 0.9 } },
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      },
+      {
+        customId: "b",
+        output: { sentiment: "negative", tags: ["price", "quality"] },
+      },
+      {
+        customId: "c",
+        error: { code: "content_filter", message: "Refused, sorry" },
+      },
+    ];
+
+    it("should flatten outputs with error and usage columns", async () => {
+      const filePath = path.join(directory, "results.csv");
+
+      await writeCsvResults(filePath, results);
+
+      expect(await fs.readFile(filePath, "utf8")).toBe(
+        [
+          "customId,output.sentiment,output.scores.positive,output.tags,errorCode,errorMessage,promptTokens,completionTokens,totalTokens",
+          "a,positive,0.9,,,,10,5,15",
+          'b,negative,,"[""price"",""quality""]",,,,,',
+          'c,,,,content_filter,"Refused, sorry",,,',
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should write only the given output columns", async () => {
+      const lines = await collect(
+        formatCsvResults(results, { outputColumns: ["sentiment"] })
+      );
+
+      expect(lines[0]).toBe(
+        "customId,output.sentiment,errorCode,errorMessage,promptTokens,completionTokens,totalTokens\n"
+      );
+      expect(lines[3]).toBe('c,,content_filter,"Refused, sorry",,,\n');
+    });
+
+    it("should write text outputs to a single column", async () => {
+      const lines = await collect(
+        formatCsvResults([{ customId: "a", output: "Hello" }])
+      );
+
+      expect(lines).toEqual([
+        "customId,output,errorCode,errorMessage,promptTokens,completionTokens,totalTokens\n",
+        "a,Hello,,,,,\n",
+      ]);
+    });
+
+    it("should write one result per JSONL line", async () => {
+      const filePath = path.join(directory, "results.jsonl");
+
+      await writeJsonlResults(filePath, results);
+
+      const lines = (await fs.readFile(filePath, "utf8")).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line))).toEqual(results);
+    });
+  });
+});
@@ -0,0 +1,409 @@
+import { z } from "zod";
+import { toolCallBatch } from "../index";
+import { GeminiLanguageModel } from "../providers/gemini";
+import { validateResult } from "../validation";
+import { BatchError, BatchRequest, ContentPart } from "../types";
+
+// Mock the Gemini client
+const mockCreate = jest.fn();
+const mockGet = jest.fn();
+const mockCancel = jest.fn();
+
+jest.mock("@google/genai", () => ({
+  GoogleGenAI: jest.fn().mockImplementation(() => ({
+    batches: {
+      create: mockCreate,
+      get: mockGet,
+      cancel: mockCancel,
+    },
+  })),
+}));
+
+describe("GeminiLanguageModel", () => {
+  let model: GeminiLanguageModel;
+
+  // This runs before each test
+  beforeEach(() => {
+    // Clear all mocks between tests
+    jest.clearAllMocks();
+
+    // Set default successful responses
+    mockCreate.mockResolvedValue({
+      name: "batches/abc123",
+      state: "JOB_STATE_PENDING",
+    });
+
+    mockGet.mockResolvedValue({
+      name: "batches/abc123",
+      state: "JOB_STATE_SUCCEEDED",
+      createTime: "2024-02-12T00:00:00Z",
+      endTime: "2024-02-12T00:01:00Z",
+      dest: {
+        inlinedResponses: [
+          {
+            metadata: { customId: "test-1" },
+            response: {
+              candidates: [
+                {
+                  content: {
+                    role: "model",
+                    parts: [
+                      { text: '{"sentiment":"positive","confidence":0.9}' },
+                    ],
+                  },
+                  finishReason: "STOP",
+                },
+              ],
+              usageMetadata: {
+                promptTokenCount: 100,
+                candidatesTokenCount: 50,
+                totalTokenCount: 150,
+              },
+            },
+          },
+          {
+            metadata: { customId: "test-2" },
+            error: { code: 400, message: "Invalid request" },
+          },
+        ],
+      },
+    });
+
+    mockCancel.mockResolvedValue(undefined);
+
+    // Create a new model instance for each test
+    model = new GeminiLanguageModel("gemini-2.5-flash", {
+      apiKey: "test-api-key",
+    });
+  });
+
+  describe("createBatch", () => {
+    const testSchema = z.object({
+      sentiment: z.string(),
+      confidence: z.number(),
+    });
+
+    const testRequests: BatchRequest<ContentPart[]>[] = [
+      {
+        customId: "test-1",
+        input: [{ type: "text" as const, text: "Hello world" }],
+        systemPrompt: "You are a helpful assistant",
+      },
+      {
+        customId: "test-2",
+        input: [
+          { type: "text" as const, text: "What is this?" },
+          {
+            type: "image_url" as const,
+            image_url: { url: "https://example.com/image.png" },
+          },
+          {
+            type: "image_url" as const,
+            image_url: { url: "data:image/webp;base64,AAAA" },
+          },
+        ],
+      },
+    ];
+
+    it("should successfully create a batch", async () => {
+      const batchId = await model.createBatch(testRequests, testSchema);
+
+      expect(batchId).toBe("batches/abc123");
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.model).toBe("gemini-2.5-flash");
+      expect(params.src).toHaveLength(2);
+      expect(params.src[0]).toEqual({
+        contents: [{ role: "user", parts: [{ text: "Hello world" }] }],
+        metadata: { customId: "test-1" },
+        config: {
+          systemInstruction: "You are a helpful assistant",
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: "object",
+            properties: {
+              sentiment: { type: "string" },
+              confidence: { type: "number" },
+            },
+            required: ["sentiment", "confidence"],
+          },
+        },
+      });
+    });
+
+    it("should map image URLs and data URLs to Gemini parts", async () => {
+      await model.createBatch(testRequests, testSchema);
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.src[1].contents[0].parts).toEqual([
+        { text: "What is this?" },
+        {
+          fileData: {
+            fileUri: "https://example.com/image.png",
+            mimeType: "image/png",
+          },
+        },
+        { inlineData: { mimeType: "image/webp", data: "AAAA" } },
+      ]);
+      expect(params.src[1].config.systemInstruction).toBeUndefined();
+    });
+
+    it("should not request JSON output for text batches", async () => {
+      await model.createTextBatch(testRequests);
+
+      const params = mockCreate.mock.calls[0][0];
+      expect(params.src[0].config).toEqual({
+        systemInstruction: "You are a helpful assistant",
+      });
+    });
+
+    it("should map inline images and PDFs to Gemini parts", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          input: [
+            {
+              type: "image_base64",
+              image_base64: { data: "AAAA", mediaType: "image/gif" },
+            },
+            { type: "document", document: { data: "BBBB" } },
+            {
+              type: "document",
+              document: { url: "https://example.com/report.pdf" },
+            },
+          ],
+        },
+      ]);
+
+      expect(mockCreate.mock.calls[0][0].src[0].contents[0].parts).toEqual([
+        { inlineData: { mimeType: "image/gif", data: "AAAA" } },
+        { inlineData: { mimeType: "application/pdf", data: "BBBB" } },
+        {
+          fileData: {
+            fileUri: "https://example.com/report.pdf",
+            mimeType: "application/pdf",
+          },
+        },
+      ]);
+    });
+
+    it("should map assistant turns to the model role", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          messages: [
+            { role: "user", content: [{ type: "text", text: "Hi" }] },
+            { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+            { role: "user", content: [{ type: "text", text: "Bye" }] },
+          ],
+        },
+      ]);
+
+      expect(mockCreate.mock.calls[0][0].src[0].contents).toEqual([
+        { role: "user", parts: [{ text: "Hi" }] },
+        { role: "model", parts: [{ text: "Hello!" }] },
+        { role: "user", parts: [{ text: "Bye" }] },
+      ]);
+    });
+
+    it("should map generation options to the request config", async () => {
+      model = new GeminiLanguageModel("gemini-2.5-flash", {
+        apiKey: "test-api-key",
+        generationOptions: { temperature: 0.4, seed: 1 },
+      });
+
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          input: [{ type: "text", text: "Hello" }],
+          generationOptions: { stop: ["END"], maxOutputTokens: 256 },
+        },
+      ]);
+
+      expect(mockCreate.mock.calls[0][0].src[0].config).toMatchObject({
+        temperature: 0.4,
+        seed: 1,
+        stopSequences: ["END"],
+        maxOutputTokens: 256,
+      });
+    });
+
+    it("should handle API errors gracefully", async () => {
+      mockCreate.mockRejectedValueOnce(new Error("API error"));
+
+      await expect(model.createBatch(testRequests, testSchema)).rejects.toThrow(
+        BatchError
+      );
+    });
+  });
+
+  describe("getBatch", () => {
+    it("should retrieve batch status correctly", async () => {
+      const batch = await model.getBatch("batches/abc123");
+
+      expect(mockGet).toHaveBeenCalledWith({ name: "batches/abc123" });
+      expect(batch.id).toBe("batches/abc123");
+      expect(batch.status).toBe("completed");
+      expect(batch.requestCounts).toEqual({
+        total: 2,
+        completed: 1,
+        failed: 1,
+      });
+      expect(batch.createdAt).toBeInstanceOf(Date);
+      expect(batch.completedAt).toBeInstanceOf(Date);
+    });
+
+    it("should use completion stats when reported", async () => {
+      mockGet.mockResolvedValueOnce({
+        name: "batches/abc123",
+        state: "JOB_STATE_RUNNING",
+        createTime: "2024-02-12T00:00:00Z",
+        completionStats: {
+          successfulCount: "3",
+          failedCount: "1",
+          incompleteCount: "6",
+        },
+      });
+
+      const batch = await model.getBatch("batches/abc123");
+
+      expect(batch.status).toBe("in_progress");
+      expect(batch.requestCounts).toEqual({
+        total: 10,
+        completed: 3,
+        failed: 1,
+        processing: 6,
+      });
+    });
+
+    it.each([
+      ["JOB_STATE_PENDING", "validating"],
+      ["JOB_STATE_EXPIRED", "expired"],
+      ["JOB_STATE_CANCELLING", "cancelling"],
+      ["JOB_STATE_CANCELLED", "cancelled"],
+      ["JOB_STATE_FAILED", "failed"],
+    ])("should map %s to %s", async (state, status) => {
+      mockGet.mockResolvedValueOnce({ name: "batches/abc123", state });
+
+      const batch = await model.getBatch("batches/abc123");
+
+      expect(batch.status).toBe(status);
+    });
+  });
+
+  describe("getBatchResults", () => {
+    it("should retrieve and parse results correctly", async () => {
+      const results = await model.getBatchResults("batches/abc123");
+
+      expect(results).toHaveLength(2);
+      expect(results[0]).toEqual({
+        customId: "test-1",
+        output: { sentiment: "positive", confidence: 0.9 },
+        finishReason: "STOP",
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+        error: undefined,
+      });
+      expect(results[1].customId).toBe("test-2");
+      expect(results[1].output).toBeUndefined();
+      expect(results[1].error).toEqual({
+        code: "400",
+        message: "Invalid request",
+      });
+    });
+
+    it("should keep truncated JSON output for validation to report", async () => {
+      mockGet.mockResolvedValueOnce({
+        name: "batches/abc123",
+        state: "JOB_STATE_SUCCEEDED",
+        dest: {
+          inlinedResponses: [
+            {
+              metadata: { customId: "test-1" },
+              response: {
+                candidates: [
+                  {
+                    content: { parts: [{ text: '{"sentiment":"pos' }] },
+                    finishReason: "MAX_TOKENS",
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      });
+
+      const results = await model.getBatchResults("batches/abc123");
+
+      expect(results[0]).toMatchObject({
+        customId: "test-1",
+        output: '{"sentiment":"pos',
+        finishReason: "MAX_TOKENS",
+      });
+      expect(
+        validateResult(results[0], z.object({ sentiment: z.string() })).error
+          ?.code
+      ).toBe("schema_validation_failed");
+    });
+
+    it("should return raw text for text batches", async () => {
+      const results = await model.getTextBatchResults("batches/abc123");
+
+      expect(results[0].output).toBe(
+        '{"sentiment":"positive","confidence":0.9}'
+      );
+    });
+
+    it("should handle batch not completed", async () => {
+      mockGet.mockResolvedValueOnce({
+        name: "batches/abc123",
+        state: "JOB_STATE_RUNNING",
+      });
+
+      await expect(model.getBatchResults("batches/abc123")).rejects.toThrow(
+        "Batch results not yet available"
+      );
+    });
+  });
+
+  describe("tool calls", () => {
+    it("should reject tool call batches", async () => {
+      expect(model.createToolBatch).toBeUndefined();
+      await expect(
+        toolCallBatch({
+          model,
+          requests: [
+            {
+              customId: "test-1",
+              input: [{ type: "text", text: "Weather in Paris?" }],
+            },
+          ],
+          tools: {
+            get_weather: { parameters: z.object({ city: z.string() }) },
+          },
+        })
+      ).rejects.toMatchObject({ code: "unsupported_tool_calls" });
+      await expect(
+        model.getToolBatchResults("batches/abc123")
+      ).rejects.toMatchObject({
+        code: "unsupported_tool_calls",
+        batchId: "batches/abc123",
+      });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cancelBatch", () => {
+    it("should cancel a batch successfully", async () => {
+      await model.cancelBatch("batches/abc123");
+
+      expect(mockCancel).toHaveBeenCalledWith({ name: "batches/abc123" });
+    });
+
+    it("should handle cancellation errors", async () => {
+      mockCancel.mockRejectedValueOnce(new Error("Cannot cancel"));
+
+      await expect(model.cancelBatch("batches/abc123")).rejects.toThrow(
+        BatchError
+      );
+    });
+  });
+});
@@ -2,10 +2,22 @@ import { z } from "zod";
 import {
   openai,
   anthropic,
+  google,
+  openaiCompatible,
+  mockModel,
   createObjectBatch,
   getObjectBatch,
+  streamObjectBatchResults,
+  listObjectBatches,
+  toolCallBatch,
+  getToolCallBatch,
+  embedBatch,
+  getEmbeddingBatch,
+  generateTextBatch,
+  getTextBatch,
   BatchError,
   ContentPart,
+  BatchRequest,
 } from "../index";
 
 // Mock the provider implementations
@@ -14,8 +26,13 @@ jest.mock("../providers/openai", () => ({
     provider: "openai",
     modelId: "gpt-4",
     createBatch: jest.fn(),
+    createTextBatch: jest.fn(),
+    createEmbeddingBatch: jest.fn(),
     getBatch: jest.fn(),
     getBatchResults: jest.fn(),
+    validateRequests: jest.fn().mockReturnValue([]),
+    getTextBatchResults: jest.fn(),
+    getEmbeddingBatchResults: jest.fn(),
   })),
 }));
 
@@ -24,8 +41,38 @@ jest.mock("../providers/anthropic", () => ({
     provider: "anthropic",
     modelId: "claude-3-opus-20240229",
     createBatch: jest.fn(),
+    createTextBatch: jest.fn(),
     getBatch: jest.fn(),
     getBatchResults: jest.fn(),
+    validateRequests: jest.fn().mockReturnValue([]),
+    getTextBatchResults: jest.fn(),
+  })),
+}));
+
+jest.mock("../providers/openai-compatible", () => ({
+  OpenAICompatibleLanguageModel: jest.fn().mockImplementation((config) => ({
+    provider: config.name,
+    modelId: config.modelId,
+    name: config.name,
+    createBatch: jest.fn(),
+    createTextBatch: jest.fn(),
+    getBatch: jest.fn(),
+    getBatchResults: jest.fn(),
+    validateRequests: jest.fn().mockReturnValue([]),
+    getTextBatchResults: jest.fn(),
+  })),
+}));
+
+jest.mock("../providers/gemini", () => ({
+  GeminiLanguageModel: jest.fn().mockImplementation(() => ({
+    provider: "google",
+    modelId: "gemini-2.5-flash",
+    createBatch: jest.fn(),
+    createTextBatch: jest.fn(),
+    getBatch: jest.fn(),
+    getBatchResults: jest.fn(),
+    validateRequests: jest.fn().mockReturnValue([]),
+    getTextBatchResults: jest.fn(),
   })),
 }));
 
@@ -96,6 +143,46 @@ describe("SDK Functions", () => {
       );
     });
 
+    it("should create a batch with Google provider", async () => {
+      const model = google("gemini-2.5-flash", { apiKey: "test-key" });
+      (model.createBatch as jest.Mock).mockResolvedValue("batches/abc123");
+
+      const batchId = await createObjectBatch({
+        model,
+        requests: prompts.map((prompt, index) => ({
+          customId: `request-${index}`,
+          input: prompt,
+        })),
+        outputSchema: testSchema,
+      });
+
+      expect(batchId).toEqual({ batchId: "batches/abc123" });
+      expect(model.provider).toBe("google");
+    });
+
+    it("should create a batch with an OpenAI-compatible provider", async () => {
+      const model = openaiCompatible({
+        baseURL: "https://api.x.ai/v1",
+        apiKey: "test-key",
+        modelId: "grok-3-mini",
+        name: "xai",
+      });
+      (model.createBatch as jest.Mock).mockResolvedValue("batch_xai123");
+
+      const batchId = await createObjectBatch({
+        model,
+        requests: prompts.map((prompt, index) => ({
+          customId: `request-${index}`,
+          input: prompt,
+        })),
+        outputSchema: testSchema,
+      });
+
+      expect(batchId).toEqual({ batchId: "batch_xai123" });
+      expect(model.provider).toBe("xai");
+      expect(model.modelId).toBe("grok-3-mini");
+    });
+
     it("should handle batch creation errors", async () => {
       const model = openai("gpt-4", { apiKey: "test-key" });
       (model.createBatch as jest.Mock).mockRejectedValue(
@@ -154,6 +241,41 @@ describe("SDK Functions", () => {
       });
     });
 
+    it("should validate results when given the output schema", async () => {
+      const model = openai("gpt-4", { apiKey: "test-key" });
+      (model.getBatch as jest.Mock).mockResolvedValue({
+        id: "batch-123",
+        status: "completed",
+        requestCounts: { total: 2, completed: 2, failed: 0 },
+        createdAt: new Date(),
+      });
+      (model.getBatchResults as jest.Mock).mockResolvedValue([
+        {
+          customId: "request-0",
+          output: { sentiment: "positive", confidence: 0.9 },
+        },
+        {
+          customId: "request-1",
+          output: { sentiment: "negative" },
+        },
+      ]);
+
+      const result = await getObjectBatch({
+        model,
+        batchId: "batch-123",
+        outputSchema: testSchema,
+        keepRaw: true,
+      });
+
+      expect(result.results![0].output).toEqual({
+        sentiment: "positive",
+        confidence: 0.9,
+      });
+      expect(result.results![1].output).toBeUndefined();
+      expect(result.results![1].raw).toEqual({ sentiment: "negative" });
+      expect(result.results![1].error?.code).toBe("schema_validation_failed");
+    });
+
     it("should only return batch status when not completed", async () => {
       const model = openai("gpt-4", { apiKey: "test-key" });
       (model.getBatch as jest.Mock).mockResolvedValue({
@@ -191,4 +313,367 @@ describe("SDK Functions", () => {
       ).rejects.toThrow(BatchError);
     });
   });
+
+  describe("generateTextBatch and getTextBatch", () => {
+    const requests = [
+      {
+        customId: "summary-1",
+        input: [{ type: "text" as const, text: "Summarise this article" }],
+      },
+    ];
+
+    it("should create a text batch without an output schema", async () => {
+      const model = anthropic("claude-3-opus-20240229", { apiKey: "test-key" });
+      (model.createTextBatch as jest.Mock).mockResolvedValue("batch_abc123");
+
+      const result = await generateTextBatch({ model, requests });
+
+      expect(result).toEqual({ batchId: "batch_abc123" });
+      expect(model.createTextBatch).toHaveBeenCalledWith(requests);
+      expect(model.createBatch).not.toHaveBeenCalled();
+    });
+
+    it("should get text results when completed", async () => {
+      const model = openai("gpt-4", { apiKey: "test-key" });
+      (model.getBatch as jest.Mock).mockResolvedValue({
+        id: "batch-123",
+        status: "completed",
+        requestCounts: { total: 1, completed: 1, failed: 0 },
+        createdAt: new Date(),
+      });
+      (model.getTextBatchResults as jest.Mock).mockResolvedValue([
+        {
+          customId: "summary-1",
+          output: "A short summary.",
+          finishReason: "stop",
+        },
+      ]);
+
+      const result = await getTextBatch({ model, batchId: "batch-123" });
+
+      expect(result.batch.status).toBe("completed");
+      expect(result.results).toEqual([
+        {
+          customId: "summary-1",
+          output: "A short summary.",
+          finishReason: "stop",
+        },
+      ]);
+      expect(model.getBatchResults).not.toHaveBeenCalled();
+    });
+
+    it("should only return batch status when not completed", async () => {
+      const model = openai("gpt-4", { apiKey: "test-key" });
+      (model.getBatch as jest.Mock).mockResolvedValue({
+        id: "batch-123",
+        status: "in_progress",
+        requestCounts: { total: 1, completed: 0, failed: 0 },
+        createdAt: new Date(),
+      });
+
+      const result = await getTextBatch({ model, batchId: "batch-123" });
+
+      expect(result.results).toBeUndefined();
+      expect(model.getTextBatchResults).not.toHaveBeenCalled();
+    });
+
+    it("should reject providers without text batches", async () => {
+      // Stands in for a model that implements neither text batch method
+      const model = mockModel({ responder: () => "" });
+      Object.assign(model, {
+        createTextBatch: undefined,
+        streamTextBatchResults: undefined,
+      });
+
+      await expect(
+        generateTextBatch({
+          model,
+          requests: [
+            { customId: "request-0", input: [{ type: "text", text: "Hi" }] },
+          ],
+        })
+      ).rejects.toMatchObject({ code: "unsupported_text_batches" });
+      await expect(
+        model.getTextBatchResults("batch-123")
+      ).rejects.toMatchObject({
+        code: "unsupported_text_batches",
+        batchId: "batch-123",
+      });
+    });
+  });
+
+  describe("mockModel", () => {
+    it("should run a batch end to end without network access", async () => {
+      const model = mockModel({
+        responder: (request) => ({ echo: request.input?.[0].text }),
+      });
+
+      const { batchId } = await createObjectBatch({
+        model,
+        requests: [
+          { customId: "request-0", input: [{ type: "text", text: "Hi" }] },
+        ],
+        outputSchema: z.object({ echo: z.string() }),
+      });
+      const { batch, results } = await getObjectBatch({ model, batchId });
+
+      expect(model.provider).toBe("mock");
+      expect(batch.status).toBe("completed");
+      expect(results?.[0].output).toEqual({ echo: "Hi" });
+    });
+
+    it("should accept requests typed with the input form", async () => {
+      interface TaggedRequest extends BatchRequest<ContentPart[]> {
+        tag: string;
+      }
+      const requests: TaggedRequest[] = [
+        {
+          customId: "request-0",
+          input: [{ type: "text", text: "Hi" }],
+          tag: "greeting",
+        },
+      ];
+      const model = mockModel({
+        responder: (request) => ({ echo: request.input?.[0].text }),
+      });
+
+      const { batchId } = await createObjectBatch({
+        model,
+        requests,
+        outputSchema: z.object({ echo: z.string() }),
+      });
+      const { results } = await getObjectBatch({ model, batchId });
+
+      expect(requests[0].input.map((part) => part.type)).toEqual(["text"]);
+      expect(results?.[0].output).toEqual({ echo: "Hi" });
+    });
+  });
+
+  describe("sharding", () => {
+    const requests = Array.from({ length: 5 }, (_, index) => ({
+      customId: `request-${index}`,
+      input: [{ type: "text" as const, text: `Prompt ${index}` }],
+    }));
+    const schema = z.object({ echo: z.string() });
+
+    it("should split requests into a batch group", async () => {
+      const model = mockModel({
+        responder: (request) => ({ echo: request.input?.[0].text }),
+      });
+
+      const { batchId, shardIds } = await createObjectBatch({
+        model,
+        requests,
+        outputSchema: schema,
+        sharding: { maxRequests: 2 },
+      });
+
+      expect(shardIds).toHaveLength(3);
+      expect(model.getSubmittedRequests(shardIds![2])).toEqual([requests[4]]);
+
+      const { batch, results } = await getObjectBatch({ model, batchId });
+      expect(batch.id).toBe(batchId);
+      expect(batch.status).toBe("completed");
+      expect(batch.requestCounts.total).toBe(5);
+      expect(results?.map((result) => result.customId)).toEqual(
+        requests.map((request) => request.customId)
+      );
+    });
+
+    it("should return a plain batch ID when one shard is enough", async () => {
+      const model = mockModel({ responder: () => ({ echo: "" }) });
+
+      const response = await createObjectBatch({
+        model,
+        requests,
+        outputSchema: schema,
+        sharding: true,
+      });
+
+      expect(response).toEqual({ batchId: "mock_batch_1" });
+    });
+
+    it("should cancel submitted shards when a later shard fails", async () => {
+      const model = mockModel({
+        responder: () => ({ echo: "" }),
+        processingDelay: 60000,
+      });
+      const createBatch = model.createBatch.bind(model);
+      jest
+        .spyOn(model, "createBatch")
+        .mockImplementationOnce(createBatch)
+        .mockRejectedValueOnce(
+          new BatchError("API error", "batch_creation_failed")
+        );
+
+      await expect(
+        createObjectBatch({
+          model,
+          requests,
+          outputSchema: schema,
+          sharding: { maxRequests: 3 },
+        })
+      ).rejects.toThrow("API error");
+      expect((await model.getBatch("mock_batch_1")).status).toBe("cancelled");
+    });
+  });
+
+  describe("streamObjectBatchResults", () => {
+    it("should yield validated results across every shard", async () => {
+      const model = mockModel({
+        responder: (request) =>
+          request.customId === "request-1"
+            ? { echo: 1 }
+            : { echo: request.input?.[0].text },
+      });
+      const { batchId } = await createObjectBatch({
+        model,
+        requests: Array.from({ length: 3 }, (_, index) => ({
+          customId: `request-${index}`,
+          input: [{ type: "text" as const, text: `Prompt ${index}` }],
+        })),
+        outputSchema: z.object({ echo: z.string() }),
+        sharding: { maxRequests: 2 },
+      });
+
+      const results = [];
+      for await (const result of streamObjectBatchResults({
+        model,
+        batchId,
+        outputSchema: z.object({ echo: z.string() }),
+      })) {
+        results.push(result);
+      }
+
+      expect(results.map((result) => result.customId)).toEqual([
+        "request-0",
+        "request-1",
+        "request-2",
+      ]);
+      expect(results[0].output).toEqual({ echo: "Prompt 0" });
+      expect(results[1].error?.code).toBe("schema_validation_failed");
+    });
+  });
+
+  describe("listObjectBatches", () => {
+    it("should list the model's batches with the given options", async () => {
+      const model = mockModel({ responder: () => ({}) });
+      const requests = [
+        {
+          customId: "request-0",
+          input: [{ type: "text" as const, text: "Hi" }],
+        },
+      ];
+      await createObjectBatch({ model, requests, outputSchema: z.object({}) });
+      await createObjectBatch({ model, requests, outputSchema: z.object({}) });
+
+      const batches = [];
+      for await (const batch of listObjectBatches({ model, limit: 1 })) {
+        batches.push(batch);
+      }
+
+      expect(batches).toHaveLength(1);
+      expect(batches[0]).toMatchObject({
+        id: "mock_batch_2",
+        status: "completed",
+      });
+    });
+  });
+
+  describe("toolCallBatch and getToolCallBatch", () => {
+    const tools = {
+      get_weather: { parameters: z.object({ city: z.string() }) },
+    };
+
+    it("should apply batch-wide tools and validate the calls", async () => {
+      const model = mockModel({
+        responder: (request) => [
+          {
+            id: `call_${request.customId}`,
+            name: "get_weather",
+            arguments: { city: request.input?.[0].text },
+          },
+        ],
+      });
+
+      const { batchId } = await toolCallBatch({
+        model,
+        requests: [
+          { customId: "request-0", input: [{ type: "text", text: "Paris" }] },
+        ],
+        tools,
+        toolChoice: "required",
+      });
+      expect(model.getSubmittedRequests(batchId)[0]).toMatchObject({
+        tools,
+        toolChoice: "required",
+      });
+
+      const { batch, results } = await getToolCallBatch({
+        model,
+        batchId,
+        tools,
+      });
+      expect(batch.status).toBe("completed");
+      expect(results?.[0].output).toEqual([
+        {
+          id: "call_request-0",
+          name: "get_weather",
+          arguments: { city: "Paris" },
+        },
+      ]);
+    });
+  });
+
+  describe("embedBatch and getEmbeddingBatch", () => {
+    it("should create an embedding batch and return its embeddings", async () => {
+      const model = openai("text-embedding-3-small");
+      const requests = [{ customId: "doc-1", input: "First document" }];
+      const results = [
+        {
+          customId: "doc-1",
+          output: [0.1, 0.2],
+          usage: { promptTokens: 2, completionTokens: 0, totalTokens: 2 },
+        },
+      ];
+      (model.createEmbeddingBatch as jest.Mock).mockResolvedValue("batch-123");
+      (model.getBatch as jest.Mock).mockResolvedValue({
+        id: "batch-123",
+        status: "completed",
+      });
+      (model.getEmbeddingBatchResults as jest.Mock).mockResolvedValue(results);
+
+      const { batchId } = await embedBatch({
+        model,
+        requests,
+        dimensions: 512,
+      });
+      expect(batchId).toBe("batch-123");
+      expect(model.createEmbeddingBatch).toHaveBeenCalledWith(requests, {
+        dimensions: 512,
+      });
+
+      const response = await getEmbeddingBatch({ model, batchId });
+      expect(response.batch.status).toBe("completed");
+      expect(response.results).toEqual(results);
+    });
+
+    it("should reject providers without embedding batches", async () => {
+      const model = mockModel({ responder: () => ({}) });
+
+      expect(model.createEmbeddingBatch).toBeUndefined();
+      await expect(
+        embedBatch({
+          model,
+          requests: [{ customId: "doc-1", input: "First document" }],
+        })
+      ).rejects.toMatchObject({ code: "unsupported_embeddings" });
+      await expect(
+        model.getEmbeddingBatchResults("batch-123")
+      ).rejects.toMatchObject({
+        code: "unsupported_embeddings",
+        batchId: "batch-123",
+      });
+    });
+  });
 });
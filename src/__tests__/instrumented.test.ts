@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { createObjectBatch, getObjectBatch, instrumentModel } from "../index";
+import { MockLanguageModel } from "../providers/mock";
+import {
+  BatchError,
+  BatchRequest,
+  ContentPart,
+  MockModelConfig,
+} from "../types";
+
+describe("InstrumentedLanguageModel", () => {
+  const schema = z.object({ echo: z.string() });
+  const requests: BatchRequest<ContentPart[]>[] = [
+    { customId: "request-0", input: [{ type: "text", text: "Hi" }] },
+    { customId: "request-1", input: [{ type: "text", text: "There" }] },
+  ];
+
+  const makeModel = (config: Partial<MockModelConfig> = {}) =>
+    new MockLanguageModel({
+      modelId: "mock-model",
+      responder: (request) => {
+        if (request.customId === "request-1") {
+          throw new BatchError("Refused", "content_filter");
+        }
+        return { echo: request.input?.[0].text };
+      },
+      ...config,
+    });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should emit the lifecycle of a batch", async () => {
+    jest.useFakeTimers({ now: new Date("2024-02-12T00:00:00Z") });
+    const events: string[] = [];
+    const model = instrumentModel(makeModel({ processingDelay: 200 }), {
+      submitted: ({ requestCount, output }) => {
+        events.push(`submitted ${requestCount} ${output}`);
+      },
+      statusChanged: ({ batch, previousStatus }) => {
+        events.push(`${previousStatus} -> ${batch.status}`);
+      },
+      completed: () => {
+        events.push("completed");
+      },
+      itemError: ({ result }) => {
+        events.push(`itemError ${result.customId} ${result.error?.code}`);
+      },
+      resultsFetched: ({ resultCount, errorCount }) => {
+        events.push(`resultsFetched ${resultCount} ${errorCount}`);
+      },
+    });
+    const progress = jest.fn();
+    model.on("progress", progress);
+
+    const { batchId } = await createObjectBatch({
+      model,
+      requests,
+      outputSchema: schema,
+    });
+    await getObjectBatch({ model, batchId, outputSchema: schema });
+    await getObjectBatch({ model, batchId, outputSchema: schema });
+    jest.advanceTimersByTime(200);
+    const { results } = await getObjectBatch({
+      model,
+      batchId,
+      outputSchema: schema,
+    });
+
+    expect(results).toHaveLength(2);
+    expect(events).toEqual([
+      "submitted 2 object",
+      "undefined -> in_progress",
+      "in_progress -> completed",
+      "completed",
+      "itemError request-1 content_filter",
+      "resultsFetched 2 1",
+    ]);
+    expect(progress).toHaveBeenCalledTimes(3);
+    expect(progress).toHaveBeenLastCalledWith({
+      batch: expect.objectContaining({ id: batchId, status: "completed" }),
+    });
+  });
+
+  it("should emit failed when a batch ends without completing", async () => {
+    const failed = jest.fn();
+    const model = instrumentModel(makeModel({ outcome: "expired" }), {
+      failed,
+    });
+
+    const batchId = await model.createBatch(requests, schema);
+    await model.getBatch(batchId);
+    await model.getBatch(batchId);
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(failed).toHaveBeenCalledWith({
+      batch: expect.objectContaining({ id: batchId, status: "expired" }),
+    });
+  });
+
+  it("should keep the wrapped model's identity and checks", () => {
+    const inner = makeModel();
+    const model = instrumentModel(inner);
+
+    expect(model.provider).toBe("mock");
+    expect(model.modelId).toBe("mock-model");
+    expect(model.validateRequests(requests)).toEqual([]);
+  });
+
+  it("should stop calling removed listeners", async () => {
+    const submitted = jest.fn();
+    const model = instrumentModel(makeModel());
+    const off = model.on("submitted", submitted);
+
+    await model.createTextBatch(requests);
+    off();
+    await model.createTextBatch(requests);
+
+    expect(submitted).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not fail calls when a listener fails", async () => {
+    const model = instrumentModel(makeModel(), {
+      submitted: () => {
+        throw new Error("Notifier down");
+      },
+      progress: () => Promise.reject(new Error("Notifier down")),
+    });
+
+    const batchId = await model.createBatch(requests, schema);
+
+    await expect(model.getBatch(batchId)).resolves.toMatchObject({
+      status: "completed",
+    });
+  });
+
+  it("should not emit submitted when creation fails", async () => {
+    const submitted = jest.fn();
+    const model = instrumentModel(makeModel({ rejectCreate: true }), {
+      submitted,
+    });
+
+    await expect(model.createBatch(requests, schema)).rejects.toThrow(
+      BatchError
+    );
+    expect(submitted).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { MockLanguageModel } from "../providers/mock";
+import { BatchError, BatchRequest, ContentPart } from "../types";
+
+describe("MockLanguageModel", () => {
+  const schema = z.object({ length: z.number() });
+
+  const requests: BatchRequest<ContentPart[]>[] = [
+    { customId: "test-1", input: [{ type: "text", text: "Hello" }] },
+    { customId: "test-2", input: [{ type: "text", text: "fail" }] },
+  ];
+
+  const responder = (request: BatchRequest<ContentPart[]>) => {
+    const text = request.input[0].text ?? "";
+    if (text === "fail") {
+      throw new BatchError("Refused", "content_filter");
+    }
+    return { length: text.length };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2024-02-12T00:00:00Z") });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should move through validating, in_progress and completed", async () => {
+    const model = new MockLanguageModel({
+      responder,
+      validatingDelay: 1000,
+      processingDelay: 5000,
+    });
+
+    const batchId = await model.createBatch(requests, schema);
+    expect((await model.getBatch(batchId)).status).toBe("validating");
+
+    jest.advanceTimersByTime(1000);
+    const inProgress = await model.getBatch(batchId);
+    expect(inProgress.status).toBe("in_progress");
+    expect(inProgress.requestCounts.processing).toBe(2);
+
+    jest.advanceTimersByTime(5000);
+    const completed = await model.getBatch(batchId);
+    expect(completed.status).toBe("completed");
+    expect(completed.requestCounts).toEqual({
+      total: 2,
+      completed: 1,
+      failed: 1,
+      processing: 0,
+      cancelled: 0,
+      expired: 0,
+    });
+    expect(completed.completedAt).toEqual(new Date("2024-02-12T00:00:06Z"));
+    expect(completed.expiresAt).toEqual(new Date("2024-02-13T00:00:00Z"));
+  });
+
+  it("should produce outputs and errors from the responder", async () => {
+    const model = new MockLanguageModel({ responder });
+
+    const batchId = await model.createBatch(requests, schema);
+    const results = await model.getBatchResults(batchId);
+
+    expect(results[0]).toEqual({
+      customId: "test-1",
+      output: { length: 5 },
+      finishReason: "stop",
+      model: "mock-model",
+      usage: { promptTokens: 2, completionTokens: 3, totalTokens: 5 },
+    });
+    expect(results[1]).toEqual({
+      customId: "test-2",
+      error: { code: "content_filter", message: "Refused" },
+    });
+  });
+
+  it("should pass the batch context to the responder", async () => {
+    const spy = jest.fn().mockReturnValue("Hi there");
+    const model = new MockLanguageModel({ responder: spy });
+
+    const batchId = await model.createTextBatch(requests.slice(0, 1));
+    const results = await model.getTextBatchResults(batchId);
+
+    expect(spy).toHaveBeenCalledWith(requests[0], {
+      batchId,
+      outputSchema: undefined,
+    });
+    expect(results[0].output).toBe("Hi there");
+  });
+
+  it("should stringify non-string outputs for text batches", async () => {
+    const model = new MockLanguageModel({ responder });
+
+    const batchId = await model.createTextBatch(requests.slice(0, 1));
+    const results = await model.getTextBatchResults(batchId);
+
+    expect(results[0].output).toBe('{"length":5}');
+  });
+
+  it("should reject results before the batch has ended", async () => {
+    const model = new MockLanguageModel({ responder, processingDelay: 1000 });
+
+    const batchId = await model.createBatch(requests, schema);
+
+    await expect(model.getBatchResults(batchId)).rejects.toThrow(
+      "Batch results not yet available"
+    );
+  });
+
+  it("should simulate failed batches", async () => {
+    const model = new MockLanguageModel({ responder, outcome: "failed" });
+
+    const batchId = await model.createBatch(requests, schema);
+
+    expect((await model.getBatch(batchId)).status).toBe("failed");
+    await expect(model.getBatchResults(batchId)).rejects.toThrow(BatchError);
+  });
+
+  it("should simulate expired batches", async () => {
+    const model = new MockLanguageModel({ responder, outcome: "expired" });
+
+    const batchId = await model.createBatch(requests, schema);
+    const batch = await model.getBatch(batchId);
+    const results = await model.getBatchResults(batchId);
+
+    expect(batch.status).toBe("expired");
+    expect(batch.requestCounts.expired).toBe(2);
+    expect(results.map((result) => result.error?.code)).toEqual([
+      "expired",
+      "expired",
+    ]);
+  });
+
+  it("should simulate cancellations", async () => {
+    const model = new MockLanguageModel({
+      responder,
+      processingDelay: 10000,
+      cancellingDelay: 500,
+    });
+
+    const batchId = await model.createBatch(requests, schema);
+    await model.cancelBatch(batchId);
+    expect((await model.getBatch(batchId)).status).toBe("cancelling");
+
+    jest.advanceTimersByTime(500);
+    const batch = await model.getBatch(batchId);
+    expect(batch.status).toBe("cancelled");
+    expect(batch.requestCounts.cancelled).toBe(2);
+    await expect(model.cancelBatch(batchId)).rejects.toThrow(
+      "Cannot cancel a batch with status cancelled"
+    );
+  });
+
+  it("should reject batch creation when configured", async () => {
+    const model = new MockLanguageModel({ responder, rejectCreate: true });
+
+    await expect(model.createBatch(requests, schema)).rejects.toMatchObject({
+      code: "batch_creation_failed",
+    });
+  });
+
+  it("should report unknown batch IDs", async () => {
+    const model = new MockLanguageModel({ responder });
+
+    await expect(model.getBatch("missing")).rejects.toMatchObject({
+      code: "batch_retrieval_failed",
+      batchId: "missing",
+    });
+  });
+
+  it("should expose submitted requests", async () => {
+    const model = new MockLanguageModel({ responder });
+
+    const batchId = await model.createBatch(requests, schema);
+
+    expect(model.getSubmittedRequests(batchId)).toEqual(requests);
+  });
+
+  it("should list batches newest first with filters", async () => {
+    const model = new MockLanguageModel({ responder, processingDelay: 5000 });
+    const first = await model.createBatch(requests, schema);
+    jest.advanceTimersByTime(5000);
+    const second = await model.createBatch(requests, schema);
+    const third = await model.createBatch(requests, schema);
+
+    const list = async (options = {}) => {
+      const ids: string[] = [];
+      for await (const batch of model.listBatches(options)) {
+        ids.push(batch.id);
+      }
+      return ids;
+    };
+
+    await expect(list()).resolves.toEqual([third, second, first]);
+    await expect(list({ status: "completed" })).resolves.toEqual([first]);
+    await expect(list({ after: third, limit: 1 })).resolves.toEqual([second]);
+    await expect(
+      list({ createdAfter: new Date("2024-02-12T00:00:01Z") })
+    ).resolves.toEqual([third, second]);
+    await expect(list({ after: "mock_batch_99" })).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import { z } from "zod";
+import { OpenAI } from "openai";
+import { OpenAICompatibleLanguageModel } from "../providers/openai-compatible";
+import { BatchRequest, ContentPart } from "../types";
+
+// Mock the OpenAI client
+const mockCreate = jest.fn();
+const mockBatchCreate = jest.fn();
+
+jest.mock("openai", () => ({
+  OpenAI: jest.fn().mockImplementation(() => ({
+    files: {
+      create: mockCreate,
+    },
+    batches: {
+      create: mockBatchCreate,
+    },
+  })),
+}));
+
+// Mock the file system operations
+jest.mock("fs", () => ({
+  promises: {
+    writeFile: jest.fn(),
+    unlink: jest.fn(),
+  },
+  createReadStream: jest.fn(),
+}));
+
+describe("OpenAICompatibleLanguageModel", () => {
+  const schema = z.object({ answer: z.string() });
+  const requests: BatchRequest<ContentPart[]>[] = [
+    {
+      customId: "test-1",
+      input: [{ type: "text", text: "Hello" }],
+      systemPrompt: "You are a helpful assistant",
+    },
+  ];
+
+  const writtenLine = (): any => {
+    const writeFileMock = require("fs").promises.writeFile;
+    return JSON.parse(writeFileMock.mock.calls[0][1]);
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockCreate.mockResolvedValue({ id: "file-123" });
+    mockBatchCreate.mockResolvedValue({ id: "batch-123" });
+  });
+
+  it("should point the client at the configured base URL", () => {
+    const model = new OpenAICompatibleLanguageModel({
+      baseURL: "https://api.x.ai/v1",
+      apiKey: "xai-key",
+      modelId: "grok-3-mini",
+      name: "xai",
+    });
+
+    expect(OpenAI).toHaveBeenCalledWith({
+      apiKey: "xai-key",
+      baseURL: "https://api.x.ai/v1",
+      organization: null,
+      project: null,
+    });
+    expect(model.provider).toBe("xai");
+    expect(model.name).toBe("xai");
+    expect(model.modelId).toBe("grok-3-mini");
+    expect(model.features).toEqual({ structuredOutputs: true });
+  });
+
+  it("should not send the OpenAI credentials from the environment", () => {
+    const env = process.env;
+    process.env = {
+      ...env,
+      OPENAI_API_KEY: "sk-openai",
+      OPENAI_ORG_ID: "org-openai",
+      OPENAI_PROJECT_ID: "proj-openai",
+    };
+    try {
+      new OpenAICompatibleLanguageModel({
+        baseURL: "http://localhost:8000/v1",
+        modelId: "meta-llama/Llama-3.1-8B-Instruct",
+        name: "vllm",
+      });
+    } finally {
+      process.env = env;
+    }
+
+    expect(OpenAI).toHaveBeenCalledWith({
+      apiKey: "",
+      baseURL: "http://localhost:8000/v1",
+      organization: null,
+      project: null,
+    });
+  });
+
+  it("should use strict structured outputs when supported", async () => {
+    const model = new OpenAICompatibleLanguageModel({
+      baseURL: "http://localhost:8000/v1",
+      modelId: "meta-llama/Llama-3.1-8B-Instruct",
+      name: "vllm",
+    });
+
+    const batchId = await model.createBatch(requests, schema);
+
+    const line = writtenLine();
+    expect(batchId).toBe("batch-123");
+    expect(line.body.model).toBe("meta-llama/Llama-3.1-8B-Instruct");
+    expect(line.body.response_format.type).toBe("json_schema");
+    expect(line.body.messages[0]).toEqual({
+      role: "system",
+      content: "You are a helpful assistant",
+    });
+  });
+
+  it("should fall back to JSON mode with schema instructions", async () => {
+    const model = new OpenAICompatibleLanguageModel({
+      baseURL: "https://api.groq.com/openai/v1",
+      modelId: "llama-3.1-8b-instant",
+      name: "groq",
+      features: { structuredOutputs: false },
+    });
+
+    await model.createBatch(
+      [{ customId: "test-1", input: [{ type: "text", text: "Hello" }] }],
+      schema
+    );
+
+    const line = writtenLine();
+    expect(line.body.response_format).toEqual({ type: "json_object" });
+    expect(line.body.messages[0].role).toBe("system");
+    expect(line.body.messages[0].content).toContain(
+      "Respond only with a JSON object"
+    );
+    expect(line.body.messages[0].content).toContain('"answer"');
+    expect(line.body.messages[1]).toEqual({
+      role: "user",
+      content: [{ type: "text", text: "Hello" }],
+    });
+  });
+
+  it("should append schema instructions to an existing system prompt", async () => {
+    const model = new OpenAICompatibleLanguageModel({
+      baseURL: "https://api.groq.com/openai/v1",
+      modelId: "llama-3.1-8b-instant",
+      name: "groq",
+      features: { structuredOutputs: false },
+    });
+
+    await model.createBatch(requests, schema);
+
+    const line = writtenLine();
+    expect(line.body.messages).toHaveLength(2);
+    expect(line.body.messages[0].content).toMatch(
+      /^You are a helpful assistant\n\nRespond only with a JSON object/
+    );
+  });
+
+  it("should not add instructions to text batches", async () => {
+    const model = new OpenAICompatibleLanguageModel({
+      baseURL: "https://api.groq.com/openai/v1",
+      modelId: "llama-3.1-8b-instant",
+      name: "groq",
+      features: { structuredOutputs: false },
+    });
+
+    await model.createTextBatch(requests);
+
+    const line = writtenLine();
+    expect(line.body.response_format).toBeUndefined();
+    expect(line.body.messages[0].content).toBe("You are a helpful assistant");
+  });
+});
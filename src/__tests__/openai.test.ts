@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { OpenAILanguageModel } from "../providers/openai";
+import { validateResults } from "../validation";
 import { BatchError, BatchRequest, ContentPart } from "../types";
 
 // Mock the OpenAI client
@@ -8,6 +9,7 @@ const mockContent = jest.fn();
 const mockBatchCreate = jest.fn();
 const mockBatchRetrieve = jest.fn();
 const mockBatchCancel = jest.fn();
+const mockBatchList = jest.fn();
 
 jest.mock("openai", () => ({
   OpenAI: jest.fn().mockImplementation(() => ({
@@ -19,6 +21,7 @@ jest.mock("openai", () => ({
       create: mockBatchCreate,
       retrieve: mockBatchRetrieve,
       cancel: mockBatchCancel,
+      list: mockBatchList,
     },
   })),
 }));
@@ -32,6 +35,15 @@ jest.mock("fs", () => ({
   createReadStream: jest.fn(),
 }));
 
+// Mock the file content response body, split into chunks of the given size
+const fileContent = (text: string, chunkSize = text.length) => ({
+  body: (async function* () {
+    for (let index = 0; index < text.length; index += chunkSize) {
+      yield Buffer.from(text.slice(index, index + chunkSize));
+    }
+  })(),
+});
+
 describe("OpenAILanguageModel", () => {
   let model: OpenAILanguageModel;
 
@@ -69,13 +81,14 @@ describe("OpenAILanguageModel", () => {
       output_file_id: "file-456",
     });
 
-    mockContent.mockResolvedValue({
-      text: () =>
-        Promise.resolve(`
+    mockContent.mockImplementation(() =>
+      Promise.resolve(
+        fileContent(`
         {"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\\"sentiment\\\":\\\"positive\\\",\\\"confidence\\\":0.9}"}}]}}}
         {"custom_id":"test-2","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\\"sentiment\\\":\\\"negative\\\",\\\"confidence\\\":0.8}"}}]}}}
-      `),
-    });
+      `)
+      )
+    );
 
     // Create a new model instance for each test
     model = new OpenAILanguageModel("gpt-4", {
@@ -212,6 +225,315 @@ describe("OpenAILanguageModel", () => {
     });
   });
 
+  describe("createTextBatch", () => {
+    it("should not include a response format", async () => {
+      const requests: BatchRequest<ContentPart[]>[] = [
+        {
+          customId: "test-1",
+          input: [{ type: "text", text: "Summarise this" }],
+        },
+      ];
+
+      const batchId = await model.createTextBatch(requests);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const parsed = JSON.parse(writeFileMock.mock.calls[0][1]);
+      expect(batchId).toBe("batch-123");
+      expect(parsed.body.response_format).toBeUndefined();
+      expect(parsed.body.messages).toEqual([
+        {
+          role: "user",
+          content: [{ type: "text", text: "Summarise this" }],
+        },
+      ]);
+    });
+  });
+
+  describe("content parts", () => {
+    it("should send inline images as data URLs and PDFs as files", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          input: [
+            {
+              type: "image_base64",
+              image_base64: { data: "AAAA", mediaType: "image/png" },
+            },
+            { type: "document", document: { data: "BBBB" } },
+          ],
+        },
+      ]);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const parsed = JSON.parse(writeFileMock.mock.calls[0][1]);
+      expect(parsed.body.messages[0].content).toEqual([
+        {
+          type: "image_url",
+          image_url: { url: "data:image/png;base64,AAAA" },
+        },
+        {
+          type: "file",
+          file: {
+            filename: "document.pdf",
+            file_data: "data:application/pdf;base64,BBBB",
+          },
+        },
+      ]);
+    });
+
+    it("should reject PDFs by URL", async () => {
+      await expect(
+        model.createTextBatch([
+          {
+            customId: "test-1",
+            input: [
+              {
+                type: "document",
+                document: { url: "https://example.com/report.pdf" },
+              },
+            ],
+          },
+        ])
+      ).rejects.toMatchObject({ code: "unsupported_content_part" });
+      expect(mockBatchCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("messages", () => {
+    it("should send every turn with its role", async () => {
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          systemPrompt: "Be brief",
+          messages: [
+            { role: "user", content: [{ type: "text", text: "Hi" }] },
+            { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+            { role: "user", content: [{ type: "text", text: "Bye" }] },
+          ],
+        },
+      ]);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const parsed = JSON.parse(writeFileMock.mock.calls[0][1]);
+      expect(parsed.body.messages).toEqual([
+        { role: "system", content: "Be brief" },
+        { role: "user", content: [{ type: "text", text: "Hi" }] },
+        { role: "assistant", content: [{ type: "text", text: "Hello!" }] },
+        { role: "user", content: [{ type: "text", text: "Bye" }] },
+      ]);
+    });
+
+    it("should reject an assistant prefill", async () => {
+      await expect(
+        model.createTextBatch([
+          {
+            customId: "test-1",
+            messages: [
+              { role: "user", content: [{ type: "text", text: "Hi" }] },
+              { role: "assistant", content: [{ type: "text", text: "Hel" }] },
+            ],
+          },
+        ])
+      ).rejects.toMatchObject({ code: "unsupported_assistant_prefill" });
+      expect(mockBatchCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tool calls", () => {
+    const tools = {
+      get_weather: {
+        description: "Get the weather for a city",
+        parameters: z.object({ city: z.string() }),
+      },
+      get_time: { parameters: z.object({ timezone: z.string() }) },
+    };
+
+    it("should send each request's tools and tool choice", async () => {
+      await model.createToolBatch([
+        {
+          customId: "test-1",
+          input: [{ type: "text", text: "Weather in Paris?" }],
+          tools,
+          toolChoice: { name: "get_weather" },
+        },
+        {
+          customId: "test-2",
+          input: [{ type: "text", text: "What time is it?" }],
+          tools: { get_time: tools.get_time },
+        },
+      ]);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const [first, second] = writeFileMock.mock.calls[0][1]
+        .split("\n")
+        .map((line: string) => JSON.parse(line).body);
+      expect(first.tools).toEqual([
+        {
+          type: "function",
+          function: {
+            name: "get_weather",
+            description: "Get the weather for a city",
+            parameters: expect.objectContaining({
+              type: "object",
+              properties: { city: { type: "string" } },
+            }),
+          },
+        },
+        expect.objectContaining({
+          function: expect.objectContaining({ name: "get_time" }),
+        }),
+      ]);
+      expect(first.tool_choice).toEqual({
+        type: "function",
+        function: { name: "get_weather" },
+      });
+      expect(first.response_format).toBeUndefined();
+      expect(second.tool_choice).toBe("auto");
+    });
+
+    it("should reject requests without tools", async () => {
+      await expect(
+        model.createToolBatch([
+          { customId: "test-1", input: [{ type: "text", text: "Hi" }] },
+        ])
+      ).rejects.toMatchObject({ code: "invalid_tools" });
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it("should return the tool calls of each result", async () => {
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          `{"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":null,"tool_calls":[{"id":"call_1","type":"function","function":{"name":"get_weather","arguments":"{\\"city\\":\\"Paris\\"}"}},{"id":"call_2","type":"function","function":{"name":"get_time","arguments":"{\\"timezone"}}]},"finish_reason":"tool_calls"}]}}}`
+        )
+      );
+
+      const [result] = await model.getToolBatchResults("batch-123");
+
+      expect(result.finishReason).toBe("tool_calls");
+      expect(result.output).toEqual([
+        { id: "call_1", name: "get_weather", arguments: { city: "Paris" } },
+        // Malformed arguments are kept as is
+        { id: "call_2", name: "get_time", arguments: '{"timezone' },
+      ]);
+    });
+  });
+
+  describe("embeddings", () => {
+    beforeEach(() => {
+      model = new OpenAILanguageModel("text-embedding-3-small", {
+        apiKey: "test-api-key",
+      });
+    });
+
+    it("should send each text to the embeddings endpoint", async () => {
+      const batchId = await model.createEmbeddingBatch(
+        [
+          { customId: "doc-1", input: "First document" },
+          { customId: "doc-2", input: "Second document" },
+        ],
+        { dimensions: 256 }
+      );
+
+      expect(batchId).toBe("batch-123");
+      expect(mockBatchCreate).toHaveBeenCalledWith({
+        input_file_id: "file-123",
+        endpoint: "/v1/embeddings",
+        completion_window: "24h",
+      });
+      const writeFileMock = require("fs").promises.writeFile;
+      const [first, second] = writeFileMock.mock.calls[0][1]
+        .split("\n")
+        .map((line: string) => JSON.parse(line));
+      expect(first).toEqual({
+        custom_id: "doc-1",
+        method: "POST",
+        url: "/v1/embeddings",
+        body: {
+          model: "text-embedding-3-small",
+          input: "First document",
+          encoding_format: "float",
+          dimensions: 256,
+        },
+      });
+      expect(second.body.input).toBe("Second document");
+    });
+
+    it("should leave dimensions out when not given", async () => {
+      await model.createEmbeddingBatch([{ customId: "doc-1", input: "Hi" }]);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const parsed = JSON.parse(writeFileMock.mock.calls[0][1]);
+      expect(parsed.body).not.toHaveProperty("dimensions");
+    });
+
+    it("should return the embedding and usage of each result", async () => {
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          `{"custom_id":"doc-1","response":{"status_code":200,"body":{"object":"list","data":[{"object":"embedding","index":0,"embedding":[0.1,-0.2,0.3]}],"model":"text-embedding-3-small","usage":{"prompt_tokens":3,"total_tokens":3}}}}
+          {"custom_id":"doc-2","response":{"status_code":400,"body":{"error":{"message":"Input is too long","type":"invalid_request_error","code":"context_length_exceeded"}}}}`
+        )
+      );
+
+      const [success, failure] = await model.getEmbeddingBatchResults(
+        "batch-123"
+      );
+
+      expect(success).toEqual({
+        customId: "doc-1",
+        output: [0.1, -0.2, 0.3],
+        model: "text-embedding-3-small",
+        usage: { promptTokens: 3, completionTokens: 0, totalTokens: 3 },
+        error: undefined,
+      });
+      expect(failure.output).toBeUndefined();
+      expect(failure.error).toEqual({
+        code: "context_length_exceeded",
+        message: "Input is too long",
+      });
+    });
+  });
+
+  describe("generation options", () => {
+    it("should map model defaults and request overrides", async () => {
+      model = new OpenAILanguageModel("gpt-4o", {
+        apiKey: "test-api-key",
+        generationOptions: { temperature: 0.2, seed: 7 },
+      });
+
+      await model.createTextBatch([
+        {
+          customId: "test-1",
+          input: [{ type: "text", text: "Hello" }],
+          generationOptions: {
+            topP: 0.5,
+            stop: ["\n\n"],
+            maxOutputTokens: 100,
+          },
+        },
+      ]);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const parsed = JSON.parse(writeFileMock.mock.calls[0][1]);
+      expect(parsed.body).toMatchObject({
+        temperature: 0.2,
+        top_p: 0.5,
+        stop: ["\n\n"],
+        seed: 7,
+        max_completion_tokens: 100,
+      });
+    });
+
+    it("should leave unset options out of the request", async () => {
+      await model.createTextBatch([
+        { customId: "test-1", input: [{ type: "text", text: "Hello" }] },
+      ]);
+
+      const writeFileMock = require("fs").promises.writeFile;
+      const parsed = JSON.parse(writeFileMock.mock.calls[0][1]);
+      expect(Object.keys(parsed.body)).toEqual(["model", "messages"]);
+    });
+  });
+
   describe("getBatch", () => {
     it("should retrieve batch status correctly", async () => {
       // Execute the test
@@ -229,6 +551,90 @@ describe("OpenAILanguageModel", () => {
     });
   });
 
+  describe("listBatches", () => {
+    const listed = (status: string, createdAt: string) => ({
+      id: `batch-${createdAt}`,
+      status,
+      request_counts: { total: 1, completed: 1, failed: 0 },
+      created_at: Date.parse(createdAt) / 1000,
+    });
+
+    beforeEach(() => {
+      // The SDK's page promise is iterated across every page
+      mockBatchList.mockReturnValue(
+        (async function* () {
+          yield listed("in_progress", "2024-02-12T03:00:00Z");
+          yield listed("completed", "2024-02-12T02:00:00Z");
+          yield listed("failed", "2024-02-12T01:00:00Z");
+          yield listed("completed", "2024-02-12T00:00:00Z");
+        })()
+      );
+    });
+
+    const list = async (options = {}) => {
+      const ids: string[] = [];
+      for await (const batch of model.listBatches(options)) {
+        ids.push(batch.id);
+      }
+      return ids;
+    };
+
+    it("should map every listed batch", async () => {
+      const batches = [];
+      for await (const batch of model.listBatches()) {
+        batches.push(batch);
+      }
+
+      expect(batches).toHaveLength(4);
+      expect(batches[0]).toMatchObject({
+        id: "batch-2024-02-12T03:00:00Z",
+        status: "in_progress",
+        createdAt: new Date("2024-02-12T03:00:00Z"),
+      });
+      expect(mockBatchList).toHaveBeenCalledWith({ limit: 100 });
+    });
+
+    it("should filter by status, creation date and limit", async () => {
+      await expect(
+        list({
+          status: ["completed", "failed"],
+          createdAfter: new Date("2024-02-12T00:30:00Z"),
+        })
+      ).resolves.toEqual([
+        "batch-2024-02-12T02:00:00Z",
+        "batch-2024-02-12T01:00:00Z",
+      ]);
+      expect(await list({ limit: 0 })).toEqual([]);
+    });
+
+    it("should stop at the limit after filtering", async () => {
+      await expect(list({ status: "completed", limit: 1 })).resolves.toEqual([
+        "batch-2024-02-12T02:00:00Z",
+      ]);
+    });
+
+    it("should pass the cursor to the API", async () => {
+      await list({ after: "batch-abc" });
+
+      expect(mockBatchList).toHaveBeenCalledWith({
+        limit: 100,
+        after: "batch-abc",
+      });
+    });
+
+    it("should handle API errors", async () => {
+      mockBatchList.mockReturnValue(
+        (async function* () {
+          throw new Error("API Error");
+        })()
+      );
+
+      await expect(list()).rejects.toMatchObject({
+        code: "batch_list_failed",
+      });
+    });
+  });
+
   describe("getBatchResults", () => {
     it("should retrieve and parse results correctly", async () => {
       // Execute the test
@@ -248,6 +654,120 @@ describe("OpenAILanguageModel", () => {
       });
     });
 
+    it("should parse lines split across chunks", async () => {
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          [
+            `{"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\"n\\":1}"}}]}}}`,
+            `{"custom_id":"test-2","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\"n\\":2}"}}]}}}`,
+          ].join("\n"),
+          7
+        )
+      );
+
+      const results = await model.getBatchResults("batch-123");
+
+      expect(results.map((result) => result.output)).toEqual([
+        { n: 1 },
+        { n: 2 },
+      ]);
+    });
+
+    it("should keep truncated JSON output for validation to report", async () => {
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          [
+            `{"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\"n\\":1}"},"finish_reason":"stop"}]}}}`,
+            `{"custom_id":"test-2","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\"n\\":"},"finish_reason":"length"}]}}}`,
+          ].join("\n")
+        )
+      );
+
+      const results = validateResults(
+        await model.getBatchResults("batch-123"),
+        z.object({ n: z.number() })
+      );
+
+      expect(results[0].output).toEqual({ n: 1 });
+      expect(results[1]).toMatchObject({
+        customId: "test-2",
+        finishReason: "length",
+        error: { code: "schema_validation_failed" },
+      });
+    });
+
+    it("should merge results from the error file", async () => {
+      mockBatchRetrieve.mockResolvedValueOnce({
+        id: "batch-123",
+        status: "completed",
+        output_file_id: "file-456",
+        error_file_id: "file-789",
+      });
+      mockContent.mockImplementation((fileId: string) =>
+        Promise.resolve(
+          fileContent(
+            fileId === "file-456"
+              ? `{"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":"{\\"n\\":1}"}}]}}}`
+              : [
+                  `{"custom_id":"test-2","response":{"status_code":400,"body":{"error":{"message":"Invalid image URL","type":"invalid_request_error","code":"invalid_image_url"}}},"error":null}`,
+                  `{"custom_id":"test-3","response":{"status_code":429,"body":{"error":{"message":"Rate limit reached","type":"requests","code":null}}},"error":null}`,
+                  `{"custom_id":"test-4","response":null,"error":{"code":"batch_expired","message":"This request could not be executed before the completion window expired."}}`,
+                ].join("\n")
+          )
+        )
+      );
+
+      const results = await model.getBatchResults("batch-123");
+
+      expect(mockContent).toHaveBeenCalledWith("file-456");
+      expect(mockContent).toHaveBeenCalledWith("file-789");
+      expect(results).toEqual([
+        expect.objectContaining({ customId: "test-1", output: { n: 1 } }),
+        expect.objectContaining({
+          customId: "test-2",
+          output: undefined,
+          error: { code: "invalid_image_url", message: "Invalid image URL" },
+        }),
+        expect.objectContaining({
+          customId: "test-3",
+          error: { code: "requests", message: "Rate limit reached" },
+        }),
+        expect.objectContaining({
+          customId: "test-4",
+          error: {
+            code: "batch_expired",
+            message:
+              "This request could not be executed before the completion window expired.",
+          },
+        }),
+      ]);
+    });
+
+    it("should read the error file when no request succeeded", async () => {
+      mockBatchRetrieve.mockResolvedValueOnce({
+        id: "batch-123",
+        status: "completed",
+        error_file_id: "file-789",
+      });
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          `{"custom_id":"test-1","response":{"status_code":500,"body":{}},"error":null}`
+        )
+      );
+
+      const results = await model.getBatchResults("batch-123");
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          customId: "test-1",
+          error: {
+            code: "http_500",
+            message: "Request failed with status 500",
+          },
+        }),
+      ]);
+    });
+
     it("should handle missing output file", async () => {
       // Mock the API to return no output file
       mockBatchRetrieve.mockResolvedValueOnce({
@@ -261,4 +781,71 @@ describe("OpenAILanguageModel", () => {
       );
     });
   });
+
+  describe("prompt caching", () => {
+    it("should report cached prompt tokens in usage", async () => {
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          `{"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":"Hi"}}],"usage":{"prompt_tokens":2000,"completion_tokens":5,"total_tokens":2005,"prompt_tokens_details":{"cached_tokens":1536}}}}}`
+        )
+      );
+
+      const [result] = await model.getTextBatchResults("batch-123");
+
+      expect(result.usage).toEqual({
+        promptTokens: 2000,
+        completionTokens: 5,
+        totalTokens: 2005,
+        cacheReadTokens: 1536,
+      });
+    });
+  });
+
+  describe("streamBatchResults", () => {
+    it("should yield results one at a time", async () => {
+      const customIds: string[] = [];
+
+      for await (const result of model.streamBatchResults("batch-123")) {
+        customIds.push(result.customId);
+      }
+
+      expect(customIds).toEqual(["test-1", "test-2"]);
+    });
+
+    it("should throw when results are not ready", async () => {
+      mockBatchRetrieve.mockResolvedValueOnce({
+        id: "batch-123",
+        status: "in_progress",
+      });
+
+      const iterator = model.streamBatchResults("batch-123");
+
+      await expect(iterator[Symbol.asyncIterator]().next()).rejects.toThrow(
+        BatchError
+      );
+    });
+  });
+
+  describe("getTextBatchResults", () => {
+    it("should return the raw assistant text and finish reason", async () => {
+      mockContent.mockResolvedValueOnce(
+        fileContent(
+          `{"custom_id":"test-1","response":{"status_code":200,"body":{"choices":[{"message":{"content":"Hello there"},"finish_reason":"stop"}],"model":"gpt-4o-2024-08-06","usage":{"prompt_tokens":5,"completion_tokens":2,"total_tokens":7}}}}`
+        )
+      );
+
+      const results = await model.getTextBatchResults("batch-123");
+
+      expect(results).toEqual([
+        {
+          customId: "test-1",
+          output: "Hello there",
+          finishReason: "stop",
+          model: "gpt-4o-2024-08-06",
+          usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 },
+          error: undefined,
+        },
+      ]);
+    });
+  });
 });
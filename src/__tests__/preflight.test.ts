@@ -0,0 +1,222 @@
+import { z } from "zod";
+import { createObjectBatch, fallbackModel } from "../index";
+import { validateBatch } from "../preflight";
+import { AnthropicLanguageModel } from "../providers/anthropic";
+import { MockLanguageModel } from "../providers/mock";
+import { OpenAILanguageModel } from "../providers/openai";
+import { OpenAICompatibleLanguageModel } from "../providers/openai-compatible";
+import { BatchRequest, ContentPart } from "../types";
+
+describe("validateBatch", () => {
+  const schema = z.object({ answer: z.string() });
+  const text = (
+    customId: string,
+    value = "Hello"
+  ): BatchRequest<ContentPart[]> => ({
+    customId,
+    input: [{ type: "text", text: value }],
+  });
+
+  const mock = () =>
+    new MockLanguageModel({ responder: () => ({ answer: "" }) });
+  const openai = () => new OpenAILanguageModel("gpt-4o", { apiKey: "test" });
+  const anthropic = () =>
+    new AnthropicLanguageModel("claude-3-5-sonnet-20241022", {
+      apiKey: "test",
+    });
+
+  it("should accept a valid batch", () => {
+    expect(
+      validateBatch({
+        model: openai(),
+        requests: [text("request-1"), text("request-2")],
+        outputSchema: schema,
+      })
+    ).toEqual([]);
+  });
+
+  it("should report duplicate IDs and empty inputs", () => {
+    const problems = validateBatch({
+      model: mock(),
+      requests: [
+        text("request-1"),
+        text("request-1"),
+        text("request-1"),
+        text("request-2", "  "),
+        { customId: "request-3", input: [] },
+        text(""),
+      ],
+    });
+
+    expect(problems.map(({ code, customId }) => [code, customId])).toEqual([
+      ["duplicate_custom_id", "request-1"],
+      ["empty_input", "request-2"],
+      ["empty_input", "request-3"],
+      ["invalid_custom_id", ""],
+    ]);
+  });
+
+  it("should report an empty batch", () => {
+    expect(validateBatch({ model: mock(), requests: [] })).toEqual([
+      { code: "empty_batch", message: "A batch needs at least one request" },
+    ]);
+  });
+
+  it("should check custom IDs against the provider's rules", () => {
+    const problems = validateBatch({
+      model: anthropic(),
+      requests: [text("review/1"), text("r".repeat(65)), text("review_1")],
+    });
+
+    expect(problems.map((problem) => problem.customId)).toEqual([
+      "review/1",
+      "r".repeat(65),
+    ]);
+    expect(problems[0].code).toBe("invalid_custom_id");
+  });
+
+  it("should collect every provider check instead of stopping at one", () => {
+    const problems = validateBatch({
+      model: anthropic(),
+      requests: [
+        { ...text("request-1"), generationOptions: { seed: 1 } },
+        {
+          customId: "request-2",
+          messages: [
+            { role: "assistant", content: [{ type: "text", text: "Hi" }] },
+          ],
+        },
+      ],
+    });
+
+    expect(problems.map(({ code, customId }) => [code, customId])).toEqual([
+      ["unsupported_generation_option", "request-1"],
+      ["invalid_messages", "request-2"],
+    ]);
+  });
+
+  it("should check content parts without reading files", () => {
+    const problems = validateBatch({
+      model: openai(),
+      requests: [
+        {
+          customId: "request-1",
+          input: [
+            {
+              type: "document",
+              document: { url: "https://example.com/a.pdf" },
+            },
+            { type: "file", file: { path: "/does/not/exist.pdf" } },
+          ],
+        },
+      ],
+    });
+
+    expect(problems).toEqual([
+      {
+        code: "unsupported_content_part",
+        message: "The openai provider does not support PDF documents by URL",
+        customId: "request-1",
+      },
+    ]);
+  });
+
+  it("should report schemas strict structured outputs reject", () => {
+    const problems = validateBatch({
+      model: openai(),
+      requests: [text("request-1")],
+      outputSchema: z.object({
+        name: z.string().optional(),
+        website: z.string().url(),
+        tags: z.array(z.object({ label: z.string().nullable() })),
+        scores: z.record(z.number()),
+      }),
+    });
+
+    expect(problems.map((problem) => problem.message)).toEqual([
+      "output.name: optional fields are not supported, use .nullable() instead",
+      'output.website: the "uri" format is not supported',
+      "output.scores: objects with arbitrary keys are not supported",
+    ]);
+    expect(
+      validateBatch({
+        model: openai(),
+        requests: [text("request-1")],
+        outputSchema: z.array(z.string()),
+      })[0].message
+    ).toBe("output: the output schema must be an object");
+  });
+
+  it("should accept any schema in JSON mode", () => {
+    const model = new OpenAICompatibleLanguageModel({
+      baseURL: "http://localhost:8000/v1",
+      apiKey: "test",
+      modelId: "llama-3",
+      name: "vllm",
+      features: { structuredOutputs: false },
+    });
+
+    expect(
+      validateBatch({
+        model,
+        requests: [text("request-1")],
+        outputSchema: z.object({ name: z.string().optional() }),
+      })
+    ).toEqual([]);
+  });
+
+  it("should run the checks of every fallback model", () => {
+    const problems = validateBatch({
+      model: fallbackModel([openai(), anthropic()]),
+      requests: [text("review/1")],
+      outputSchema: z.object({ name: z.string().optional() }),
+    });
+
+    expect(problems.map((problem) => problem.code)).toEqual([
+      "unsupported_output_schema",
+      "invalid_custom_id",
+    ]);
+  });
+});
+
+describe("createObjectBatch validation", () => {
+  const schema = z.object({ echo: z.string() });
+  const requests: BatchRequest<ContentPart[]>[] = [
+    { customId: "request-1", input: [{ type: "text", text: "Hi" }] },
+    { customId: "request-1", input: [{ type: "text", text: "" }] },
+  ];
+
+  it("should throw every problem before submitting", async () => {
+    const model = new MockLanguageModel({ responder: () => ({ echo: "" }) });
+    const createBatch = jest.spyOn(model, "createBatch");
+
+    const error = await createObjectBatch({
+      model,
+      requests,
+      outputSchema: schema,
+    }).catch((error) => error);
+
+    expect(error).toMatchObject({ code: "invalid_batch" });
+    expect(error.message).toBe(
+      [
+        "Batch failed validation:",
+        "- Custom ID request-1 is used by more than one request",
+        "- Request request-1 has an empty input",
+      ].join("\n")
+    );
+    expect(createBatch).not.toHaveBeenCalled();
+  });
+
+  it("should skip validation when disabled", async () => {
+    const model = new MockLanguageModel({ responder: () => ({ echo: "" }) });
+
+    await expect(
+      createObjectBatch({
+        model,
+        requests,
+        outputSchema: schema,
+        validate: false,
+      })
+    ).resolves.toEqual({ batchId: "mock_batch_1" });
+  });
+});
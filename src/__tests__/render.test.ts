@@ -0,0 +1,222 @@
+import { z } from "zod";
+import {
+  anthropic,
+  fallbackModel,
+  google,
+  instrumentModel,
+  mockModel,
+  openai,
+  openaiCompatible,
+  renderBatch,
+} from "../index";
+import { BatchRequest, ContentPart } from "../types";
+
+describe("renderBatch", () => {
+  const schema = z.object({ sentiment: z.enum(["positive", "negative"]) });
+  const requests: BatchRequest<ContentPart[]>[] = [
+    {
+      customId: "request-0",
+      input: [{ type: "text", text: "Great lamp" }],
+      systemPrompt: "Classify the review",
+    },
+    {
+      customId: "request-1",
+      input: [{ type: "text", text: "Wobbly desk" }],
+      generationOptions: { temperature: 0 },
+    },
+  ];
+
+  it("should render OpenAI batch lines with the response format", async () => {
+    const rendered = await renderBatch({
+      model: openai("gpt-4o", { apiKey: "test" }),
+      requests,
+      outputSchema: schema,
+    });
+
+    expect(rendered.provider).toBe("openai");
+    expect(rendered.modelId).toBe("gpt-4o");
+    expect(rendered.requests[0]).toMatchObject({
+      custom_id: "request-0",
+      method: "POST",
+      url: "/v1/chat/completions",
+      body: {
+        model: "gpt-4o",
+        messages: [
+          { role: "system", content: "Classify the review" },
+          { role: "user", content: [{ type: "text", text: "Great lamp" }] },
+        ],
+        response_format: { type: "json_schema" },
+      },
+    });
+    expect(rendered.requests[1]).toMatchObject({
+      body: { temperature: 0 },
+    });
+    expect(rendered.outputSchema).toMatchObject({
+      type: "object",
+      properties: { sentiment: { enum: ["positive", "negative"] } },
+    });
+  });
+
+  it("should count requests and bytes against the batch limits", async () => {
+    const rendered = await renderBatch({
+      model: openai("gpt-4o", { apiKey: "test" }),
+      requests,
+    });
+
+    const sizes = rendered.requests.map((request) =>
+      Buffer.byteLength(JSON.stringify(request))
+    );
+    expect(rendered.outputSchema).toBeUndefined();
+    expect(rendered.stats).toEqual({
+      requestCount: 2,
+      totalBytes: sizes[0] + sizes[1],
+      largestRequestBytes: Math.max(...sizes),
+      withinLimits: true,
+    });
+  });
+
+  it("should report batches over the limits", async () => {
+    const rendered = await renderBatch({
+      model: openai("gpt-4o", { apiKey: "test" }),
+      requests: Array.from({ length: 50001 }, (_, index) => ({
+        customId: `request-${index}`,
+        input: [{ type: "text" as const, text: "Hi" }],
+      })),
+    });
+
+    expect(rendered.stats.requestCount).toBe(50001);
+    expect(rendered.stats.withinLimits).toBe(false);
+  });
+
+  it("should size batches with more requests than fit in the call stack", async () => {
+    const rendered = await renderBatch({
+      model: openai("gpt-4o", { apiKey: "test" }),
+      requests: Array.from({ length: 150000 }, (_, index) => ({
+        customId: `request-${index}`,
+        input: [{ type: "text" as const, text: "Hi" }],
+      })),
+    });
+
+    expect(rendered.stats.largestRequestBytes).toBe(
+      Buffer.byteLength(JSON.stringify(rendered.requests[149999]))
+    );
+  });
+
+  it("should render the JSON schema for JSON mode servers", async () => {
+    const model = openaiCompatible({
+      baseURL: "http://localhost:8000/v1",
+      apiKey: "test",
+      modelId: "local-model",
+      name: "vllm",
+      features: { structuredOutputs: false },
+    });
+
+    const rendered = await renderBatch({
+      model,
+      requests,
+      outputSchema: schema,
+    });
+
+    expect(rendered.provider).toBe("vllm");
+    expect(rendered.requests[0]).toMatchObject({
+      body: {
+        messages: [
+          {
+            role: "system",
+            content: expect.stringContaining('"sentiment"'),
+          },
+          expect.anything(),
+        ],
+        response_format: { type: "json_object" },
+      },
+    });
+    expect(rendered.outputSchema).toMatchObject({ type: "object" });
+  });
+
+  it("should render the Anthropic format tool", async () => {
+    const rendered = await renderBatch({
+      model: anthropic("claude-3-5-sonnet-20241022", { apiKey: "test" }),
+      requests,
+      outputSchema: schema,
+    });
+
+    expect(rendered.requests[0]).toMatchObject({
+      custom_id: "request-0",
+      params: {
+        model: "claude-3-5-sonnet-20241022",
+        system: "Classify the review",
+        tools: [{ name: "format_response" }],
+        tool_choice: { type: "tool", name: "format_response" },
+      },
+    });
+    expect(rendered.outputSchema).toMatchObject({
+      type: "object",
+      properties: { response: { type: "object" } },
+    });
+  });
+
+  it("should render Gemini inlined requests with the converted schema", async () => {
+    const rendered = await renderBatch({
+      model: google("gemini-2.5-flash", { apiKey: "test" }),
+      requests,
+      outputSchema: schema,
+    });
+
+    expect(rendered.requests[0]).toMatchObject({
+      contents: [{ role: "user", parts: [{ text: "Great lamp" }] }],
+      metadata: { customId: "request-0" },
+      config: {
+        systemInstruction: "Classify the review",
+        responseMimeType: "application/json",
+      },
+    });
+    expect(rendered.outputSchema).toMatchObject({ type: "object" });
+  });
+
+  it("should render through fallback and instrumented models", async () => {
+    const model = instrumentModel(
+      fallbackModel([
+        openai("gpt-4o-mini", { apiKey: "test" }),
+        anthropic("claude-3-5-sonnet-20241022", { apiKey: "test" }),
+      ])
+    );
+
+    const rendered = await renderBatch({ model, requests });
+
+    expect(rendered.requests[0]).toMatchObject({
+      body: { model: "gpt-4o-mini" },
+    });
+  });
+
+  it("should run the checks of batch creation", async () => {
+    await expect(
+      renderBatch({
+        model: anthropic("claude-3-5-sonnet-20241022", { apiKey: "test" }),
+        requests: [
+          {
+            customId: "request-0",
+            input: [{ type: "text", text: "Hi" }],
+            generationOptions: { seed: 1 },
+          },
+        ],
+      })
+    ).rejects.toMatchObject({ code: "unsupported_generation_option" });
+  });
+
+  it("should reject providers that can't render batches", async () => {
+    await expect(
+      renderBatch({
+        model: mockModel({ responder: () => ({}) }),
+        requests,
+      })
+    ).rejects.toMatchObject({ code: "unsupported_dry_run" });
+    await expect(
+      renderBatch({
+        model: instrumentModel(
+          fallbackModel([mockModel({ responder: () => ({}) })])
+        ),
+        requests,
+      })
+    ).rejects.toMatchObject({ code: "unsupported_dry_run" });
+  });
+});
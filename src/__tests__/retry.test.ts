@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { retryFailed } from "../retry";
+import { MockLanguageModel } from "../providers/mock";
+import { BatchError, BatchRequest, ContentPart } from "../types";
+
+describe("retryFailed", () => {
+  const schema = z.object({ answer: z.string() });
+
+  const requests: BatchRequest<ContentPart[]>[] = [
+    { customId: "ok", input: [{ type: "text", text: "ok" }] },
+    { customId: "flaky", input: [{ type: "text", text: "flaky" }] },
+    { customId: "broken", input: [{ type: "text", text: "broken" }] },
+  ];
+
+  // Fails "flaky" on its first attempt and "broken" every time
+  const makeModel = () => {
+    const calls: Record<string, number> = {};
+    return new MockLanguageModel({
+      responder: (request) => {
+        const text = request.input?.[0].text ?? "";
+        calls[text] = (calls[text] ?? 0) + 1;
+        if (text === "broken" || (text === "flaky" && calls[text] === 1)) {
+          throw new BatchError("Overloaded", "overloaded");
+        }
+        return { answer: text };
+      },
+    });
+  };
+
+  it("should resubmit failed items and merge the results", async () => {
+    const model = makeModel();
+    const batchId = await model.createBatch(requests, schema);
+
+    const { results, attempts, batchIds } = await retryFailed({
+      model,
+      batchId,
+      requests,
+      outputSchema: schema,
+      interval: 1,
+    });
+
+    expect(results.map((result) => result.customId)).toEqual([
+      "ok",
+      "flaky",
+      "broken",
+    ]);
+    expect(results[0].output).toEqual({ answer: "ok" });
+    expect(results[1].output).toEqual({ answer: "flaky" });
+    expect(results[2].error?.code).toBe("overloaded");
+    expect(attempts).toEqual({ ok: 1, flaky: 2, broken: 3 });
+    expect(batchIds).toHaveLength(3);
+    expect(model.getSubmittedRequests(batchIds[1])).toEqual(requests.slice(1));
+    expect(model.getSubmittedRequests(batchIds[2])).toEqual([requests[2]]);
+  });
+
+  it("should respect maxAttempts", async () => {
+    const model = makeModel();
+    const batchId = await model.createBatch(requests, schema);
+
+    const { attempts, batchIds } = await retryFailed({
+      model,
+      batchId,
+      requests,
+      outputSchema: schema,
+      maxAttempts: 1,
+      interval: 1,
+    });
+
+    expect(attempts).toEqual({ ok: 1, flaky: 1, broken: 1 });
+    expect(batchIds).toEqual([batchId]);
+  });
+
+  it("should retry items missing from the results", async () => {
+    const model = makeModel();
+    const batchId = await model.createBatch(requests.slice(0, 1), schema);
+
+    const { results, attempts } = await retryFailed({
+      model,
+      batchId,
+      requests: requests.slice(0, 2),
+      outputSchema: schema,
+      maxAttempts: 2,
+      interval: 1,
+    });
+
+    expect(attempts).toEqual({ ok: 1, flaky: 2 });
+    expect(results[1].error?.code).toBe("overloaded");
+  });
+
+  it("should retry outputs that fail schema validation", async () => {
+    let calls = 0;
+    const model = new MockLanguageModel({
+      responder: () => (++calls === 1 ? { answer: 42 } : { answer: "42" }),
+    });
+    const batchId = await model.createBatch(requests.slice(0, 1), schema);
+
+    const { results, attempts } = await retryFailed({
+      model,
+      batchId,
+      requests: requests.slice(0, 1),
+      outputSchema: schema,
+      interval: 1,
+    });
+
+    expect(results[0].output).toEqual({ answer: "42" });
+    expect(attempts).toEqual({ ok: 2 });
+  });
+
+  it("should resubmit everything when the original batch expired", async () => {
+    const expiring = new MockLanguageModel({
+      responder: () => ({ answer: "late" }),
+      outcome: "expired",
+    });
+    const batchId = await expiring.createBatch(requests, schema);
+
+    const { results, batchIds } = await retryFailed({
+      model: expiring,
+      batchId,
+      requests,
+      outputSchema: schema,
+      maxAttempts: 2,
+      interval: 1,
+    });
+
+    expect(batchIds).toHaveLength(2);
+    expect(expiring.getSubmittedRequests(batchIds[1])).toEqual(requests);
+    expect(results.every((result) => result.error?.code === "expired")).toBe(
+      true
+    );
+  });
+
+  it("should treat a failed batch without results as all missing", async () => {
+    const failing = new MockLanguageModel({
+      responder: () => ({ answer: "never" }),
+      outcome: "failed",
+    });
+    const batchId = await failing.createBatch(requests, schema);
+
+    const { results, attempts } = await retryFailed({
+      model: failing,
+      batchId,
+      requests,
+      outputSchema: schema,
+      maxAttempts: 2,
+      interval: 1,
+    });
+
+    expect(attempts).toEqual({ ok: 2, flaky: 2, broken: 2 });
+    expect(results[0].error).toEqual({
+      code: "missing_result",
+      message: "No result was returned for this request",
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { OpenAILanguageModel } from "../providers/openai";
+import {
+  decodeBatchGroupId,
+  encodeBatchGroupId,
+  getBatchOrGroup,
+  getResultsOrGroup,
+  measureRequests,
+  shardRequests,
+} from "../sharding";
+import {
+  Batch,
+  BatchError,
+  BatchRequest,
+  ContentPart,
+  LanguageModel,
+} from "../types";
+
+const makeRequests = (count: number): BatchRequest<ContentPart[]>[] =>
+  Array.from({ length: count }, (_, index) => ({
+    customId: `request-${index}`,
+    input: [{ type: "text", text: "Hello world" }],
+  }));
+
+describe("shardRequests", () => {
+  it("should keep requests within the count limit in order", () => {
+    const shards = shardRequests(makeRequests(5), {
+      maxRequests: 2,
+      maxBytes: Infinity,
+    });
+
+    expect(shards.map((shard) => shard.map((r) => r.customId))).toEqual([
+      ["request-0", "request-1"],
+      ["request-2", "request-3"],
+      ["request-4"],
+    ]);
+  });
+
+  it("should keep requests within the byte limit", () => {
+    const requests = makeRequests(4);
+    const requestBytes = Buffer.byteLength(JSON.stringify(requests[0])) + 512;
+
+    const shards = shardRequests(requests, {
+      maxRequests: Infinity,
+      maxBytes: requestBytes * 3,
+    });
+
+    expect(shards.map((shard) => shard.length)).toEqual([3, 1]);
+  });
+
+  it("should account for the schema in each request", () => {
+    const requests = makeRequests(2);
+    const requestBytes = Buffer.byteLength(JSON.stringify(requests[0])) + 512;
+    const schema = z.object({ sentiment: z.string() });
+
+    expect(
+      shardRequests(requests, {
+        maxRequests: Infinity,
+        maxBytes: requestBytes * 2,
+      })
+    ).toHaveLength(1);
+    expect(
+      shardRequests(
+        requests,
+        { maxRequests: Infinity, maxBytes: requestBytes * 2 },
+        schema
+      )
+    ).toHaveLength(2);
+  });
+
+  it("should reject a single request larger than the byte limit", () => {
+    expect(() =>
+      shardRequests(makeRequests(1), { maxRequests: 10, maxBytes: 100 })
+    ).toThrow(BatchError);
+  });
+
+  it("should size file parts as encoded by the provider", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-shard-"));
+    try {
+      const filePath = path.join(directory, "scan.png");
+      await fs.writeFile(filePath, Buffer.alloc(30000));
+      const requests: BatchRequest<ContentPart[]>[] = ["a", "b"].map(
+        (customId) => ({
+          customId,
+          input: [{ type: "file", file: { path: filePath } }],
+        })
+      );
+      const limits = { maxRequests: Infinity, maxBytes: 60000 };
+
+      const sizes = await measureRequests(
+        new OpenAILanguageModel("gpt-4o", { apiKey: "test" }),
+        requests
+      );
+
+      // The path alone would fit both requests in one shard
+      expect(shardRequests(requests, limits)).toHaveLength(1);
+      expect(sizes?.[0]).toBeGreaterThan(40000);
+      expect(
+        shardRequests(requests, limits, undefined, sizes).map((shard) =>
+          shard.map((request) => request.customId)
+        )
+      ).toEqual([["a"], ["b"]]);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("should leave models that can't render requests to the estimate", async () => {
+    const model = { provider: "custom" } as LanguageModel<ContentPart[]>;
+
+    expect(await measureRequests(model, makeRequests(1))).toBeUndefined();
+  });
+});
+
+describe("batch group IDs", () => {
+  it("should round trip the shard batch IDs", () => {
+    const groupId = encodeBatchGroupId(["batch-1", "batch-2"]);
+
+    expect(groupId).toMatch(/^batch_group_/);
+    expect(decodeBatchGroupId(groupId)).toEqual(["batch-1", "batch-2"]);
+  });
+
+  it("should treat provider batch IDs as a single batch", () => {
+    expect(decodeBatchGroupId("batch-1")).toEqual(["batch-1"]);
+  });
+
+  it("should reject malformed group IDs", () => {
+    expect(() => decodeBatchGroupId("batch_group_not-json")).toThrow(
+      "Invalid batch group ID"
+    );
+  });
+});
+
+describe("getBatchOrGroup", () => {
+  const shardBatches: Record<string, Batch> = {
+    "batch-1": {
+      id: "batch-1",
+      status: "completed",
+      requestCounts: { total: 2, completed: 2, failed: 0 },
+      createdAt: new Date("2024-02-12T00:00:00Z"),
+      completedAt: new Date("2024-02-12T01:00:00Z"),
+      expiresAt: new Date("2024-02-13T00:00:00Z"),
+    },
+    "batch-2": {
+      id: "batch-2",
+      status: "in_progress",
+      requestCounts: { total: 3, completed: 1, failed: 1, processing: 1 },
+      createdAt: new Date("2024-02-12T00:00:05Z"),
+      expiresAt: new Date("2024-02-13T00:00:05Z"),
+    },
+  };
+
+  const model = {
+    getBatch: jest.fn((id: string) => Promise.resolve(shardBatches[id])),
+  } as unknown as LanguageModel<ContentPart[]>;
+
+  it("should pass provider batch IDs straight through", async () => {
+    await expect(getBatchOrGroup(model, "batch-1")).resolves.toBe(
+      shardBatches["batch-1"]
+    );
+  });
+
+  it("should aggregate status and counts across shards", async () => {
+    const groupId = encodeBatchGroupId(["batch-1", "batch-2"]);
+
+    const batch = await getBatchOrGroup(model, groupId);
+
+    expect(batch).toEqual({
+      id: groupId,
+      status: "in_progress",
+      requestCounts: { total: 5, completed: 3, failed: 1, processing: 1 },
+      createdAt: new Date("2024-02-12T00:00:00Z"),
+      completedAt: undefined,
+      expiresAt: new Date("2024-02-13T00:00:00Z"),
+    });
+  });
+
+  it("should complete once every shard has completed", async () => {
+    shardBatches["batch-2"] = {
+      ...shardBatches["batch-2"],
+      status: "completed",
+      completedAt: new Date("2024-02-12T02:00:00Z"),
+    };
+
+    const batch = await getBatchOrGroup(
+      model,
+      encodeBatchGroupId(["batch-1", "batch-2"])
+    );
+
+    expect(batch.status).toBe("completed");
+    expect(batch.completedAt).toEqual(new Date("2024-02-12T02:00:00Z"));
+  });
+});
+
+describe("getResultsOrGroup", () => {
+  it("should concatenate shard results in submission order", async () => {
+    const fetchResults = jest.fn((id: string) =>
+      Promise.resolve([{ customId: `${id}-result` }])
+    );
+
+    const results = await getResultsOrGroup(
+      encodeBatchGroupId(["batch-1", "batch-2"]),
+      fetchResults
+    );
+
+    expect(results).toEqual([
+      { customId: "batch-1-result" },
+      { customId: "batch-2-result" },
+    ]);
+  });
+});
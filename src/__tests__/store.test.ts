@@ -0,0 +1,214 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { z } from "zod";
+import { createObjectBatch } from "../index";
+import { MockLanguageModel } from "../providers/mock";
+import { BatchRecord, JsonFileBatchStore, resumeAll } from "../store";
+import { BatchError, BatchRequest, ContentPart } from "../types";
+
+describe("JsonFileBatchStore", () => {
+  let directory: string;
+  let filePath: string;
+
+  const record: BatchRecord = {
+    batchId: "batch-1",
+    provider: "openai",
+    modelId: "gpt-4o",
+    schemaName: "sentiment",
+    requestIds: ["request-0", "request-1"],
+    status: "in_progress",
+    createdAt: new Date("2024-02-12T00:00:00Z"),
+    updatedAt: new Date("2024-02-12T00:05:00Z"),
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-store-"));
+    filePath = path.join(directory, "nested", "batches.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should start empty when the file does not exist", async () => {
+    await expect(new JsonFileBatchStore(filePath).list()).resolves.toEqual([]);
+  });
+
+  it("should persist records across store instances", async () => {
+    await new JsonFileBatchStore(filePath).save(record);
+
+    const reloaded = new JsonFileBatchStore(filePath);
+
+    await expect(reloaded.get("batch-1")).resolves.toEqual(record);
+    await expect(reloaded.get("batch-2")).resolves.toBeUndefined();
+  });
+
+  it("should not lose concurrent saves", async () => {
+    const store = new JsonFileBatchStore(filePath);
+
+    await Promise.all(
+      ["batch-1", "batch-2", "batch-3"].map((batchId) =>
+        store.save({ ...record, batchId })
+      )
+    );
+
+    expect((await store.list()).map((saved) => saved.batchId)).toEqual([
+      "batch-1",
+      "batch-2",
+      "batch-3",
+    ]);
+  });
+
+  it("should delete records", async () => {
+    const store = new JsonFileBatchStore(filePath);
+    await store.save(record);
+
+    await store.delete("batch-1");
+
+    await expect(store.list()).resolves.toEqual([]);
+  });
+
+  it("should reject a corrupt file", async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, "{not json");
+
+    await expect(new JsonFileBatchStore(filePath).list()).rejects.toThrow(
+      BatchError
+    );
+  });
+});
+
+describe("resumeAll", () => {
+  let directory: string;
+  let filePath: string;
+
+  const schema = z.object({ echo: z.string() });
+  const requests: BatchRequest<ContentPart[]>[] = [
+    { customId: "request-0", input: [{ type: "text", text: "Hi" }] },
+    { customId: "request-1", input: [{ type: "text", text: "There" }] },
+  ];
+
+  const makeModel = () =>
+    new MockLanguageModel({
+      modelId: "mock-model",
+      responder: (request) =>
+        request.customId === "request-1"
+          ? { echo: 1 }
+          : { echo: request.input?.[0].text },
+      processingDelay: 20,
+    });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "batch-store-"));
+    filePath = path.join(directory, "batches.json");
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should record batches created with a store", async () => {
+    const model = makeModel();
+    const store = new JsonFileBatchStore(filePath);
+
+    const { batchId } = await createObjectBatch({
+      model,
+      requests,
+      outputSchema: schema,
+      store,
+      schemaName: "echo",
+    });
+
+    await expect(store.get(batchId)).resolves.toMatchObject({
+      batchId,
+      provider: "mock",
+      modelId: "mock-model",
+      schemaName: "echo",
+      requestIds: ["request-0", "request-1"],
+      status: "validating",
+    });
+  });
+
+  it("should poll unfinished batches after a restart", async () => {
+    const model = makeModel();
+    const { batchId } = await createObjectBatch({
+      model,
+      requests,
+      outputSchema: schema,
+      store: new JsonFileBatchStore(filePath),
+      schemaName: "echo",
+    });
+
+    // A fresh store instance stands in for a restarted process
+    const store = new JsonFileBatchStore(filePath);
+    const onBatchEnded = jest.fn();
+    const resumed = await resumeAll({
+      store,
+      models: [model],
+      schemas: { echo: schema },
+      interval: 5,
+      onBatchEnded,
+    });
+
+    expect(resumed).toHaveLength(1);
+    expect(resumed[0].batch?.status).toBe("completed");
+    expect(resumed[0].results?.[0].output).toEqual({ echo: "Hi" });
+    expect(resumed[0].results?.[1].error?.code).toBe(
+      "schema_validation_failed"
+    );
+    expect(onBatchEnded).toHaveBeenCalledWith(resumed[0]);
+    expect((await store.get(batchId))?.status).toBe("completed");
+
+    // Finished batches are not polled again
+    await expect(resumeAll({ store, models: [model] })).resolves.toEqual([]);
+  });
+
+  it("should keep polling the other batches when one fails", async () => {
+    const model = makeModel();
+    const store = new JsonFileBatchStore(filePath);
+    const { batchId } = await createObjectBatch({
+      model,
+      requests,
+      outputSchema: schema,
+      store,
+    });
+    // A batch the provider no longer knows about
+    await store.save({
+      ...(await store.get(batchId))!,
+      batchId: "batch-gone",
+    });
+
+    const onBatchEnded = jest.fn();
+    const resumed = await resumeAll({
+      store,
+      models: [model],
+      interval: 5,
+      onBatchEnded,
+    });
+
+    const byId = Object.fromEntries(
+      resumed.map((item) => [item.record.batchId, item])
+    );
+    expect(byId[batchId].batch?.status).toBe("completed");
+    expect(byId["batch-gone"].batch).toBeUndefined();
+    expect(byId["batch-gone"].error).toBeInstanceOf(BatchError);
+    expect(byId["batch-gone"].error?.code).toBe("batch_retrieval_failed");
+    expect(onBatchEnded).toHaveBeenCalledTimes(1);
+    expect((await store.get("batch-gone"))?.status).toBe("validating");
+  });
+
+  it("should fail before polling when a model is missing", async () => {
+    const store = new JsonFileBatchStore(filePath);
+    await createObjectBatch({
+      model: makeModel(),
+      requests,
+      outputSchema: schema,
+      store,
+    });
+
+    await expect(resumeAll({ store, models: [] })).rejects.toMatchObject({
+      code: "model_not_found",
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { validateResults, validateToolCalls } from "../validation";
+
+describe("validateResults", () => {
+  const schema = z.object({
+    sentiment: z.enum(["positive", "negative", "neutral"]),
+    confidence: z.number(),
+  });
+
+  const results = [
+    {
+      customId: "request-0",
+      output: { sentiment: "positive", confidence: 0.9 },
+      usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    },
+    {
+      customId: "request-1",
+      output: { sentiment: "great", confidence: "high" },
+    },
+    {
+      customId: "request-2",
+      error: { code: "errored", message: "Request failed" },
+    },
+  ];
+
+  it("should keep valid outputs", () => {
+    const [valid] = validateResults(results, schema);
+
+    expect(valid).toEqual(results[0]);
+  });
+
+  it("should move invalid outputs into a schema_validation_failed error", () => {
+    const [, invalid] = validateResults(results, schema);
+
+    expect(invalid.output).toBeUndefined();
+    expect(invalid.error?.code).toBe("schema_validation_failed");
+    expect(invalid.error?.message).toContain("sentiment: Invalid enum value");
+    expect(invalid.error?.message).toContain(
+      "confidence: Expected number, received string"
+    );
+    expect(invalid.error?.issues?.map((issue) => issue.path)).toEqual([
+      ["sentiment"],
+      ["confidence"],
+    ]);
+  });
+
+  it("should leave provider errors untouched", () => {
+    const [, , errored] = validateResults(results, schema);
+
+    expect(errored).toEqual(results[2]);
+  });
+
+  it("should fail validation when the output is missing", () => {
+    const [missing] = validateResults([{ customId: "request-3" }], schema);
+
+    expect(missing.error?.code).toBe("schema_validation_failed");
+  });
+
+  it("should apply schema transforms to the output", () => {
+    const [result] = validateResults(
+      [{ customId: "request-0", output: { name: " Ada " } }],
+      z.object({ name: z.string().trim() })
+    );
+
+    expect(result.output).toEqual({ name: "Ada" });
+  });
+
+  it("should keep the raw payload when requested", () => {
+    const validated = validateResults(results, schema, { keepRaw: true });
+
+    expect(validated[0].raw).toEqual(results[0].output);
+    expect(validated[1].raw).toEqual({
+      sentiment: "great",
+      confidence: "high",
+    });
+    expect(validated[2].raw).toBeUndefined();
+  });
+});
+
+describe("validateToolCalls", () => {
+  const tools = {
+    get_weather: { parameters: z.object({ city: z.string() }) },
+  };
+
+  it("should keep calls with valid arguments", () => {
+    const results = [
+      {
+        customId: "request-0",
+        output: [
+          { id: "call_1", name: "get_weather", arguments: { city: "Paris" } },
+        ],
+      },
+      { customId: "request-1", output: [] },
+    ];
+
+    expect(validateToolCalls(results, tools)).toEqual(results);
+  });
+
+  it("should flag unknown tools and invalid arguments", () => {
+    const [unknown, invalid] = validateToolCalls(
+      [
+        {
+          customId: "request-0",
+          output: [{ id: "call_1", name: "get_time", arguments: {} }],
+        },
+        {
+          customId: "request-1",
+          output: [
+            { id: "call_2", name: "get_weather", arguments: { city: 1 } },
+          ],
+        },
+      ],
+      tools,
+      { keepRaw: true }
+    );
+
+    expect(unknown.error).toEqual({
+      code: "unknown_tool",
+      message: "The model called the unknown tool get_time",
+    });
+    expect(invalid.output).toBeUndefined();
+    expect(invalid.raw).toEqual([
+      { id: "call_2", name: "get_weather", arguments: { city: 1 } },
+    ]);
+    expect(invalid.error).toMatchObject({
+      code: "schema_validation_failed",
+      message: "get_weather: city: Expected string, received number",
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { z } from "zod";
+import { waitForObjectBatch } from "../wait";
+import { Batch, BatchError, LanguageModel, ContentPart } from "../types";
+
+const makeBatch = (
+  status: Batch["status"],
+  completed: number,
+  failed = 0
+): Batch => ({
+  id: "batch-123",
+  status,
+  requestCounts: { total: 3, completed, failed },
+  createdAt: new Date("2024-02-12T00:00:00Z"),
+});
+
+const makeModel = (...batches: Batch[]) => {
+  const getBatch = jest.fn();
+  batches.forEach((batch) => getBatch.mockResolvedValueOnce(batch));
+  return {
+    provider: "openai",
+    modelId: "gpt-4",
+    getBatch,
+    getBatchResults: jest
+      .fn()
+      .mockResolvedValue([
+        { customId: "request-0", output: { sentiment: "positive" } },
+      ]),
+  } as unknown as LanguageModel<ContentPart[]> & {
+    getBatch: jest.Mock;
+    getBatchResults: jest.Mock;
+  };
+};
+
+describe("waitForObjectBatch", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should poll until the batch completes and return results", async () => {
+    const model = makeModel(
+      makeBatch("validating", 0),
+      makeBatch("in_progress", 1),
+      makeBatch("completed", 3)
+    );
+
+    const result = await waitForObjectBatch({
+      model,
+      batchId: "batch-123",
+      interval: 1,
+    });
+
+    expect(model.getBatch).toHaveBeenCalledTimes(3);
+    expect(model.getBatchResults).toHaveBeenCalledWith("batch-123");
+    expect(result.batch.status).toBe("completed");
+    expect(result.results).toEqual([
+      { customId: "request-0", output: { sentiment: "positive" } },
+    ]);
+  });
+
+  it("should validate results against the output schema", async () => {
+    const model = makeModel(makeBatch("completed", 3));
+
+    const result = await waitForObjectBatch({
+      model,
+      batchId: "batch-123",
+      outputSchema: z.object({ sentiment: z.number() }),
+    });
+
+    expect(result.results[0].error?.code).toBe("schema_validation_failed");
+  });
+
+  it("should back off exponentially up to the max interval", async () => {
+    jest.useFakeTimers();
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+    const model = makeModel(
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("completed", 3)
+    );
+
+    const promise = waitForObjectBatch({
+      model,
+      batchId: "batch-123",
+      interval: 100,
+      maxInterval: 300,
+    });
+    await jest.advanceTimersByTimeAsync(100 + 200 + 300 + 300);
+    await promise;
+
+    const delays = setTimeoutSpy.mock.calls.map((call) => call[1]);
+    expect(delays).toEqual([100, 200, 300, 300]);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it("should report request count deltas when progress changes", async () => {
+    const model = makeModel(
+      makeBatch("in_progress", 1),
+      makeBatch("in_progress", 1),
+      makeBatch("in_progress", 2, 1),
+      makeBatch("completed", 2, 1)
+    );
+    const onProgress = jest.fn();
+
+    await waitForObjectBatch({
+      model,
+      batchId: "batch-123",
+      interval: 1,
+      onProgress,
+    });
+
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress.mock.calls[0][0].delta).toEqual({
+      total: 3,
+      completed: 1,
+      failed: 0,
+    });
+    expect(onProgress.mock.calls[1][0].delta).toEqual({
+      total: 0,
+      completed: 1,
+      failed: 1,
+    });
+    expect(onProgress.mock.calls[2][0].batch.status).toBe("completed");
+    expect(onProgress.mock.calls[2][0].delta).toEqual({
+      total: 0,
+      completed: 0,
+      failed: 0,
+    });
+  });
+
+  it.each([
+    ["failed", "batch_failed"],
+    ["expired", "batch_expired"],
+    ["cancelled", "batch_cancelled"],
+  ] as const)("should stop on %s batches", async (status, code) => {
+    const model = makeModel(makeBatch(status, 0));
+
+    const promise = waitForObjectBatch({ model, batchId: "batch-123" });
+
+    await expect(promise).rejects.toThrow(BatchError);
+    await expect(promise).rejects.toMatchObject({
+      code,
+      batchId: "batch-123",
+    });
+    expect(model.getBatchResults).not.toHaveBeenCalled();
+  });
+
+  it("should time out when the batch does not complete", async () => {
+    const model = makeModel(
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0)
+    );
+
+    await expect(
+      waitForObjectBatch({
+        model,
+        batchId: "batch-123",
+        interval: 50,
+        timeout: 80,
+      })
+    ).rejects.toMatchObject({ code: "wait_timeout" });
+    // Polled at 0ms, 50ms and once more at the deadline
+    expect(model.getBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should poll at the deadline instead of giving up early", async () => {
+    jest.useFakeTimers();
+    const setTimeoutSpy = jest.spyOn(global, "setTimeout");
+    const model = makeModel(
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 0),
+      makeBatch("in_progress", 2),
+      makeBatch("completed", 3)
+    );
+
+    const promise = waitForObjectBatch({
+      model,
+      batchId: "batch-123",
+      interval: 1000,
+      timeout: 30000,
+    });
+    await jest.advanceTimersByTimeAsync(30000);
+
+    await expect(promise).resolves.toMatchObject({
+      batch: { status: "completed" },
+    });
+    const delays = setTimeoutSpy.mock.calls.map((call) => call[1]);
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 15000]);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it("should stop when the signal is aborted", async () => {
+    const model = makeModel(makeBatch("in_progress", 0));
+    const controller = new AbortController();
+
+    const promise = waitForObjectBatch({
+      model,
+      batchId: "batch-123",
+      interval: 60000,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 1);
+
+    await expect(promise).rejects.toMatchObject({ code: "wait_aborted" });
+    expect(model.getBatch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop when the signal is aborted during a poll", async () => {
+    jest.useFakeTimers();
+    const model = makeModel();
+    const controller = new AbortController();
+    model.getBatch.mockImplementationOnce(async () => {
+      controller.abort();
+      return makeBatch("in_progress", 0);
+    });
+
+    // Rejects without advancing the clock through the 60s interval
+    await expect(
+      waitForObjectBatch({
+        model,
+        batchId: "batch-123",
+        interval: 60000,
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ code: "wait_aborted" });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should not poll when the signal is already aborted", async () => {
+    const model = makeModel(makeBatch("completed", 3));
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      waitForObjectBatch({
+        model,
+        batchId: "batch-123",
+        signal: controller.signal,
+      })
+    ).rejects.toMatchObject({ code: "wait_aborted" });
+    expect(model.getBatch).not.toHaveBeenCalled();
+  });
+});
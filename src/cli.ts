@@ -0,0 +1,379 @@
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { parseArgs } from "util";
+import { z } from "zod";
+import {
+  anthropic,
+  createObjectBatch,
+  generateTextBatch,
+  getObjectBatch,
+  getTextBatch,
+  listObjectBatches,
+  openai,
+} from "./index";
+import {
+  Batch,
+  BatchError,
+  AnyBatchRequest,
+  BatchStatus,
+  ContentPart,
+  LanguageModel,
+} from "./types";
+import {
+  formatCsvResults,
+  formatJsonlResults,
+  readCsvRequests,
+  readJsonlRequests,
+  writeCsvResults,
+  writeJsonlResults,
+} from "./files";
+import { getBatchOrGroup } from "./sharding";
+import { waitForBatch } from "./wait";
+
+export type CliProvider = "openai" | "anthropic";
+
+export interface RunCliOptions {
+  /** Writes to standard output (default process.stdout) */
+  stdout?: (text: string) => void;
+  /** Writes to standard error (default process.stderr) */
+  stderr?: (text: string) => void;
+  /** Creates the model for a provider and model ID (default the factories) */
+  createModel?: (
+    provider: CliProvider,
+    modelId: string
+  ) => LanguageModel<ContentPart[]>;
+  /** Imports a schema module by file URL (default the native import()) */
+  importModule?: (url: string) => Promise<Record<string, unknown>>;
+}
+
+// Only batch creation needs a real model ID, the other commands work on
+// batch IDs alone
+const DEFAULT_MODEL_IDS: Record<CliProvider, string> = {
+  openai: "gpt-4o",
+  anthropic: "claude-3-5-sonnet-20241022",
+};
+
+const USAGE = `Usage: batch-ai <command> [options]
+
+Commands:
+  submit --requests <file> [--schema <module>]        Create a batch from a JSONL or
+                                                      CSV file, printing its ID
+  status <batchId>                                    Print a batch's status
+  wait <batchId> [--interval <ms>] [--timeout <ms>]   Poll a batch until it ends
+  results <batchId> [--schema <module>] [--output <file>] [--format jsonl|csv]
+                                                      Write a completed batch's results
+  cancel <batchId>                                    Cancel a batch
+  list [--limit <n>] [--status <status>] [--after <batchId>]
+                                                      List batches, newest first
+
+Options:
+  --provider <openai|anthropic>  Provider to use (default openai)
+  --model <modelId>              Model ID, required by submit
+  --schema <module>              Module exporting the Zod output schema; without
+                                 it batches are free-form text
+  --export <name>                Export of the schema module (default "default")
+  --help                         Show this help
+
+API keys are read from OPENAI_API_KEY and ANTHROPIC_API_KEY.
+`;
+
+const OPTIONS = {
+  provider: { type: "string" },
+  model: { type: "string" },
+  requests: { type: "string" },
+  schema: { type: "string" },
+  export: { type: "string" },
+  output: { type: "string" },
+  format: { type: "string" },
+  interval: { type: "string" },
+  timeout: { type: "string" },
+  limit: { type: "string" },
+  status: { type: "string" },
+  after: { type: "string" },
+  help: { type: "boolean" },
+} as const;
+
+type CliValues = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>["values"];
+
+interface CliContext {
+  model: LanguageModel<ContentPart[]>;
+  values: CliValues;
+  positionals: string[];
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  importModule: (url: string) => Promise<Record<string, unknown>>;
+}
+
+// Built outside of TypeScript's reach, since the CommonJS build would turn an
+// import() into a require() that can't load file URLs or ES modules
+const nativeImport = new Function("url", "return import(url)") as (
+  url: string
+) => Promise<Record<string, unknown>>;
+
+const COMMANDS: Record<string, (context: CliContext) => Promise<number>> = {
+  submit,
+  status,
+  wait,
+  results,
+  cancel,
+  list,
+};
+
+/**
+ * Runs the batch-ai command line tool
+ * @param args Command line arguments, without the node and script paths
+ * @param options Output streams and model factory overrides
+ * @returns Promise resolving to the process exit code
+ */
+export async function runCli(
+  args: string[],
+  {
+    stdout = (text): void => {
+      process.stdout.write(text);
+    },
+    stderr = (text): void => {
+      process.stderr.write(text);
+    },
+    createModel = defaultCreateModel,
+    importModule = nativeImport,
+  }: RunCliOptions = {}
+): Promise<number> {
+  try {
+    const { values, positionals } = parseCliArgs(args);
+    const [command, ...rest] = positionals;
+    if (values.help || !command) {
+      stdout(USAGE);
+      return values.help ? 0 : 1;
+    }
+    if (!COMMANDS[command]) {
+      throw usageError(`Unknown command ${command}`);
+    }
+
+    const provider = values.provider ?? "openai";
+    if (provider !== "openai" && provider !== "anthropic") {
+      throw usageError(`Unknown provider ${provider}`);
+    }
+    if (command === "submit" && !values.model) {
+      throw usageError("submit needs a --model");
+    }
+    const model = createModel(
+      provider,
+      values.model ?? DEFAULT_MODEL_IDS[provider]
+    );
+
+    return await COMMANDS[command]({
+      model,
+      values,
+      positionals: rest,
+      stdout,
+      stderr,
+      importModule,
+    });
+  } catch (error) {
+    const code = error instanceof BatchError ? ` (${error.code})` : "";
+    stderr(`Error: ${error instanceof Error ? error.message : error}${code}\n`);
+    return 1;
+  }
+}
+
+async function submit({
+  model,
+  values,
+  stdout,
+  importModule,
+}: CliContext): Promise<number> {
+  if (!values.requests) {
+    throw usageError("submit needs --requests");
+  }
+  const requests: AnyBatchRequest<ContentPart[]>[] = [];
+  for await (const request of values.requests.endsWith(".csv")
+    ? readCsvRequests(values.requests)
+    : readJsonlRequests(values.requests)) {
+    requests.push(request);
+  }
+  const outputSchema = await loadSchema(values, importModule);
+
+  const { batchId } = outputSchema
+    ? await createObjectBatch({ model, requests, outputSchema })
+    : await generateTextBatch({ model, requests });
+  stdout(`${batchId}\n`);
+  return 0;
+}
+
+async function status({
+  model,
+  positionals,
+  stdout,
+}: CliContext): Promise<number> {
+  const batch = await getBatchOrGroup(model, requireBatchId(positionals));
+  stdout(`${JSON.stringify(batch, null, 2)}\n`);
+  return 0;
+}
+
+async function wait({
+  model,
+  values,
+  positionals,
+  stdout,
+  stderr,
+}: CliContext): Promise<number> {
+  const batch = await waitForBatch(
+    model,
+    requireBatchId(positionals),
+    {
+      interval: parseNumber(values.interval, "--interval"),
+      timeout: parseNumber(values.timeout, "--timeout"),
+      onProgress: ({ batch }) => stderr(`${formatBatch(batch)}\n`),
+    },
+    { untilEnded: true }
+  );
+  stdout(`${JSON.stringify(batch, null, 2)}\n`);
+  return batch.status === "completed" ? 0 : 1;
+}
+
+async function results({
+  model,
+  values,
+  positionals,
+  stdout,
+  importModule,
+}: CliContext): Promise<number> {
+  const batchId = requireBatchId(positionals);
+  const outputSchema = await loadSchema(values, importModule);
+  const format =
+    values.format ?? (values.output?.endsWith(".csv") ? "csv" : "jsonl");
+  if (format !== "jsonl" && format !== "csv") {
+    throw usageError(`Unknown format ${format}`);
+  }
+
+  const { batch, results } = outputSchema
+    ? await getObjectBatch({ model, batchId, outputSchema })
+    : await getTextBatch({ model, batchId });
+  if (!results) {
+    throw new BatchError(
+      `Batch ${batchId} is ${batch.status}, results are only available once it completes`,
+      "results_not_ready",
+      batchId
+    );
+  }
+
+  if (values.output) {
+    await (format === "csv" ? writeCsvResults : writeJsonlResults)(
+      values.output,
+      results
+    );
+  } else {
+    for await (const line of format === "csv"
+      ? formatCsvResults(results)
+      : formatJsonlResults(results)) {
+      stdout(line);
+    }
+  }
+  return 0;
+}
+
+async function cancel({
+  model,
+  positionals,
+  stdout,
+}: CliContext): Promise<number> {
+  const batchId = requireBatchId(positionals);
+  if (!model.cancelBatch) {
+    throw new BatchError(
+      `The ${model.provider} provider can't cancel batches`,
+      "batch_cancellation_failed",
+      batchId
+    );
+  }
+  await model.cancelBatch(batchId);
+  stdout(`${batchId}\n`);
+  return 0;
+}
+
+async function list({ model, values, stdout }: CliContext): Promise<number> {
+  const batches = listObjectBatches({
+    model,
+    limit: parseNumber(values.limit, "--limit") ?? 20,
+    status: values.status?.split(",") as BatchStatus[] | undefined,
+    after: values.after,
+  });
+  for await (const batch of batches) {
+    stdout(`${formatBatch(batch)}\t${batch.createdAt.toISOString()}\n`);
+  }
+  return 0;
+}
+
+function defaultCreateModel(
+  provider: CliProvider,
+  modelId: string
+): LanguageModel<ContentPart[]> {
+  return provider === "anthropic"
+    ? anthropic(modelId as Parameters<typeof anthropic>[0])
+    : openai(modelId as Parameters<typeof openai>[0]);
+}
+
+function parseCliArgs(args: string[]): {
+  values: CliValues;
+  positionals: string[];
+} {
+  try {
+    return parseArgs({ args, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    // Unknown and malformed options
+    throw usageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function loadSchema(
+  values: CliValues,
+  importModule: CliContext["importModule"]
+): Promise<z.ZodSchema<unknown> | undefined> {
+  if (!values.schema) {
+    return undefined;
+  }
+  const exportName = values.export ?? "default";
+  const module = await importModule(
+    pathToFileURL(path.resolve(values.schema)).href
+  );
+  const schema = module[exportName] as z.ZodSchema<unknown> | undefined;
+  // Checked by shape, since the module may resolve its own copy of zod
+  if (typeof schema?.safeParse !== "function") {
+    throw new BatchError(
+      `${values.schema} does not export a Zod schema as ${exportName}`,
+      "invalid_schema_module"
+    );
+  }
+  return schema;
+}
+
+function requireBatchId(positionals: string[]): string {
+  if (!positionals[0]) {
+    throw usageError("Missing batch ID");
+  }
+  return positionals[0];
+}
+
+function parseNumber(
+  value: string | undefined,
+  option: string
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw usageError(`${option} must be a non-negative number`);
+  }
+  return number;
+}
+
+function usageError(message: string): BatchError {
+  return new BatchError(`${message}, see batch-ai --help`, "invalid_arguments");
+}
+
+function formatBatch(batch: Batch): string {
+  const { completed, failed, total } = batch.requestCounts;
+  return `${batch.id}\t${batch.status}\t${completed}/${total} completed, ${failed} failed`;
+}
@@ -0,0 +1,142 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { BatchError, AnyBatchRequest, ContentPart } from "./types";
+
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+};
+
+/**
+ * Replaces every `file` content part with its contents, read from disk and
+ * encoded as an inline image or PDF document
+ */
+export async function resolveFileParts(
+  requests: AnyBatchRequest<ContentPart[]>[]
+): Promise<AnyBatchRequest<ContentPart[]>[]> {
+  // The same file is often attached to many requests, so read it only once
+  const files = new Map<string, Promise<ContentPart>>();
+  const resolveParts = (parts: ContentPart[]): Promise<ContentPart[]> =>
+    Promise.all(
+      parts.map((part) => {
+        if (part.type !== "file" || !part.file) {
+          return part;
+        }
+        const key = `${part.file.path}\0${part.file.mediaType ?? ""}`;
+        if (!files.has(key)) {
+          files.set(key, readFilePart(part.file.path, part.file.mediaType));
+        }
+        const resolved = files.get(key) as Promise<ContentPart>;
+        // The cache marker belongs to this request's part, not the file
+        return part.cache
+          ? resolved.then((contents) => ({ ...contents, cache: true }))
+          : resolved;
+      })
+    );
+
+  return Promise.all(
+    requests.map(async (request) =>
+      request.messages
+        ? {
+            ...request,
+            messages: await Promise.all(
+              request.messages.map(async (message) => ({
+                ...message,
+                content: await resolveParts(message.content),
+              }))
+            ),
+          }
+        : { ...request, input: await resolveParts(request.input ?? []) }
+    )
+  );
+}
+
+/**
+ * Splits a base64 data URL into its media type and data
+ */
+export function parseDataUrl(
+  url: string
+): { mediaType: string; data: string } | undefined {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mediaType: match[1], data: match[2] } : undefined;
+}
+
+/**
+ * Throws an unsupported_content_part error for a part a provider can't send
+ */
+export function unsupportedContentPart(
+  provider: string,
+  part: ContentPart,
+  reason = `${part.type} content parts`
+): never {
+  throw new BatchError(
+    `The ${provider} provider does not support ${reason}`,
+    "unsupported_content_part"
+  );
+}
+
+async function readFilePart(
+  filePath: string,
+  mediaType?: string
+): Promise<ContentPart> {
+  let contents: Buffer;
+  try {
+    contents = await fs.readFile(filePath);
+  } catch (error) {
+    throw new BatchError(
+      `Failed to read ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      "file_read_failed"
+    );
+  }
+
+  const type = mediaType ?? detectMediaType(filePath, contents);
+  const data = contents.toString("base64");
+  if (type === "application/pdf") {
+    return { type: "document", document: { data } };
+  }
+  if (type?.startsWith("image/")) {
+    return { type: "image_base64", image_base64: { data, mediaType: type } };
+  }
+  throw new BatchError(
+    `Unsupported file type for ${filePath}, only images and PDFs can be attached`,
+    "unsupported_content_part"
+  );
+}
+
+function detectMediaType(
+  filePath: string,
+  contents: Buffer
+): string | undefined {
+  const extension = path.extname(filePath).slice(1).toLowerCase();
+  if (MEDIA_TYPES_BY_EXTENSION[extension]) {
+    return MEDIA_TYPES_BY_EXTENSION[extension];
+  }
+
+  // Fall back to the file signature for files without a known extension
+  const header = contents.subarray(0, 12);
+  if (header.subarray(0, 4).toString("latin1") === "%PDF") {
+    return "application/pdf";
+  }
+  if (header.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+    return "image/png";
+  }
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (header.subarray(0, 4).toString("latin1") === "GIF8") {
+    return "image/gif";
+  }
+  if (
+    header.subarray(0, 4).toString("latin1") === "RIFF" &&
+    header.subarray(8, 12).toString("latin1") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  return undefined;
+}
@@ -0,0 +1,276 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  BatchError,
+  AnyBatchRequest,
+  BatchResponse,
+  ContentPart,
+  LanguageModel,
+  getRequestMessages,
+} from "./types";
+
+export interface ModelPricing {
+  /** USD per million input tokens at the standard, non-batch rate */
+  input: number;
+  /** USD per million output tokens at the standard, non-batch rate */
+  output: number;
+  /** USD per million input tokens read from the prompt cache (default input) */
+  cacheRead?: number;
+  /** USD per million input tokens written to the prompt cache (default input) */
+  cacheWrite?: number;
+  /** Fraction taken off the standard rate for batch requests (default 0.5) */
+  batchDiscount?: number;
+}
+
+// Anthropic bills cache reads at a tenth of the input rate and cache writes
+// at a quarter more
+function claude(input: number, output: number): ModelPricing {
+  return { input, output, cacheRead: input * 0.1, cacheWrite: input * 1.25 };
+}
+
+// Standard rates keyed by model ID prefix, so dated snapshots such as
+// gpt-4o-2024-08-06 or claude-3-5-sonnet-20241022 match their family
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  o1: { input: 15, output: 60 },
+  "o1-mini": { input: 1.1, output: 4.4 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+  "claude-3-opus": claude(15, 75),
+  "claude-opus-4": claude(15, 75),
+  "claude-3-5-sonnet": claude(3, 15),
+  "claude-3-7-sonnet": claude(3, 15),
+  "claude-sonnet-4": claude(3, 15),
+  "claude-3-5-haiku": claude(0.8, 4),
+  "claude-3-haiku": claude(0.25, 1.25),
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+};
+
+const DEFAULT_BATCH_DISCOUNT = 0.5;
+
+// Tokenizers differ per provider, so estimates use the common rule of thumb
+// of four characters per token plus a fixed allowance per image or document
+const CHARS_PER_TOKEN = 4;
+const ATTACHMENT_TOKENS = 765;
+const REQUEST_OVERHEAD_TOKENS = 10;
+
+export interface ModelCost {
+  requests: number;
+  /** Every input token, including cache reads and writes */
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Costs in USD with the batch discount applied */
+  inputCost: number;
+  outputCost: number;
+  totalCost: number;
+}
+
+export interface EstimateBatchCostParams<Input> {
+  model: LanguageModel<Input>;
+  requests: AnyBatchRequest<Input>[];
+  outputSchema?: z.ZodSchema<unknown>;
+  /** Expected output tokens per request */
+  expectedOutputTokens: number;
+  /** Extra or overriding prices keyed by model ID prefix */
+  pricing?: Record<string, ModelPricing>;
+}
+
+export interface BatchCostEstimate extends ModelCost {
+  modelId: string;
+}
+
+export interface SummarizeCostOptions {
+  /** Model ID for results that don't report the model that produced them */
+  modelId?: string;
+  /** Extra or overriding prices keyed by model ID prefix */
+  pricing?: Record<string, ModelPricing>;
+}
+
+export interface CostSummary {
+  /** Total cost in USD across every model */
+  totalCost: number;
+  /** Token counts and costs per model ID */
+  models: Record<string, ModelCost>;
+}
+
+/**
+ * Estimates what a batch will cost before it is submitted, from approximate
+ * token counts of the prompts, system prompts and output schema
+ * @param params Object containing the model, requests and expected output size
+ * @returns The estimated token counts and cost in USD
+ */
+export function estimateBatchCost<Input>({
+  model,
+  requests,
+  outputSchema,
+  expectedOutputTokens,
+  pricing,
+}: EstimateBatchCostParams<Input>): BatchCostEstimate {
+  const schemaTokens = outputSchema
+    ? estimateTokens(JSON.stringify(zodToJsonSchema(outputSchema)))
+    : 0;
+
+  const inputTokens = requests.reduce(
+    (total, request) =>
+      total +
+      REQUEST_OVERHEAD_TOKENS +
+      estimateTokens(request.systemPrompt ?? "") +
+      getRequestMessages(request).reduce(
+        (sum, message) => sum + estimateInputTokens(message.content),
+        0
+      ) +
+      schemaTokens,
+    0
+  );
+
+  return {
+    modelId: model.modelId,
+    ...priceTokens(getModelPricing(model.modelId, pricing), {
+      requests: requests.length,
+      inputTokens,
+      outputTokens: expectedOutputTokens * requests.length,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    }),
+  };
+}
+
+/**
+ * Converts the reported usage of batch results into USD per model
+ * @param results Results from any number of batches
+ * @param options Fallback model ID and pricing overrides
+ * @returns The cost per model and in total
+ */
+export function summarizeCost(
+  results: BatchResponse<unknown>[],
+  { modelId, pricing }: SummarizeCostOptions = {}
+): CostSummary {
+  const usageByModel = new Map<string, TokenCounts>();
+
+  for (const result of results) {
+    // Failed items are not billed
+    if (!result.usage) {
+      continue;
+    }
+    const model = result.model ?? modelId;
+    if (!model) {
+      throw new BatchError(
+        `Result ${result.customId} does not report its model, pass a modelId`,
+        "unknown_model_pricing"
+      );
+    }
+    const usage = usageByModel.get(model) ?? {
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+    };
+    usage.requests++;
+    usage.inputTokens += result.usage.promptTokens;
+    usage.outputTokens += result.usage.completionTokens;
+    usage.cacheReadTokens += result.usage.cacheReadTokens ?? 0;
+    usage.cacheWriteTokens += result.usage.cacheWriteTokens ?? 0;
+    usageByModel.set(model, usage);
+  }
+
+  const models: Record<string, ModelCost> = {};
+  for (const [model, usage] of usageByModel) {
+    models[model] = priceTokens(getModelPricing(model, pricing), usage);
+  }
+
+  return {
+    totalCost: Object.values(models).reduce(
+      (total, cost) => total + cost.totalCost,
+      0
+    ),
+    models,
+  };
+}
+
+/**
+ * Looks up the standard pricing for a model, matching the longest model ID
+ * prefix in the pricing table
+ */
+export function getModelPricing(
+  modelId: string,
+  pricing: Record<string, ModelPricing> = {}
+): ModelPricing {
+  const table = { ...MODEL_PRICING, ...pricing };
+  const match = Object.keys(table)
+    .filter((prefix) => modelId.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!match) {
+    throw new BatchError(
+      `No pricing known for model ${modelId}, pass it in pricing`,
+      "unknown_model_pricing"
+    );
+  }
+  return table[match];
+}
+
+type TokenCounts = Pick<
+  ModelCost,
+  | "requests"
+  | "inputTokens"
+  | "outputTokens"
+  | "cacheReadTokens"
+  | "cacheWriteTokens"
+>;
+
+function priceTokens(pricing: ModelPricing, counts: TokenCounts): ModelCost {
+  const rate = 1 - (pricing.batchDiscount ?? DEFAULT_BATCH_DISCOUNT);
+  const perMillion = (tokens: number, price: number): number =>
+    (tokens / 1_000_000) * price * rate;
+
+  const uncachedTokens =
+    counts.inputTokens - counts.cacheReadTokens - counts.cacheWriteTokens;
+  const inputCost =
+    perMillion(uncachedTokens, pricing.input) +
+    perMillion(counts.cacheReadTokens, pricing.cacheRead ?? pricing.input) +
+    perMillion(counts.cacheWriteTokens, pricing.cacheWrite ?? pricing.input);
+  const outputCost = perMillion(counts.outputTokens, pricing.output);
+  return {
+    ...counts,
+    inputCost,
+    outputCost,
+    totalCost: inputCost + outputCost,
+  };
+}
+
+function estimateInputTokens(input: unknown): number {
+  if (typeof input === "string") {
+    return estimateTokens(input);
+  }
+  if (Array.isArray(input)) {
+    return (input as ContentPart[]).reduce(
+      (total, part) =>
+        total +
+        (part.type === "text"
+          ? estimateTokens(part.text ?? "")
+          : ATTACHMENT_TOKENS),
+      0
+    );
+  }
+  return estimateTokens(JSON.stringify(input) ?? "");
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
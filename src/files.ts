@@ -0,0 +1,447 @@
+import * as fs from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  BatchError,
+  AnyBatchRequest,
+  BatchResponse,
+  ContentPart,
+} from "./types";
+
+/**
+ * Which field of each row holds which part of the request
+ */
+export interface RequestColumns {
+  /** Field holding the custom ID (default "customId", else request-<index>) */
+  customId?: string;
+  /** Field holding the prompt text (default "text") */
+  text?: string;
+  /** Field holding the system prompt */
+  systemPrompt?: string;
+  /** Field holding an image URL, attached after the prompt text */
+  imageUrl?: string;
+}
+
+export interface ReadRequestsOptions {
+  columns?: RequestColumns;
+  /**
+   * Prompt text with {{field}} placeholders filled in from each row, used
+   * instead of the text field
+   */
+  template?: string;
+  /** System prompt for rows without a system prompt field */
+  systemPrompt?: string;
+}
+
+export interface FormatCsvResultsOptions {
+  /**
+   * Paths of the output fields to write, such as "sentiment" or
+   * "scores.positive". When omitted they are collected from every result,
+   * which reads all results before writing the first row.
+   */
+  outputColumns?: string[];
+}
+
+type Results =
+  | Iterable<BatchResponse<unknown>>
+  | AsyncIterable<BatchResponse<unknown>>;
+
+/**
+ * Reads requests from a JSONL file one line at a time. Lines that hold an
+ * `input` or `messages` are read as BatchRequests, with text in place of
+ * content parts read as a text part, and other lines are mapped to a text
+ * request like CSV rows.
+ * @param filePath Path of the JSONL file
+ * @param options Column mapping, prompt template and default system prompt
+ */
+export async function* readJsonlRequests(
+  filePath: string,
+  options: ReadRequestsOptions = {}
+): AsyncGenerator<AnyBatchRequest<ContentPart[]>> {
+  let index = 0;
+  let lineNumber = 0;
+  for await (const line of readLines(filePath)) {
+    lineNumber++;
+    if (!line.trim()) {
+      continue;
+    }
+    const location = `Line ${lineNumber} of ${filePath}`;
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new BatchError(
+        `${location} is not valid JSON`,
+        "invalid_requests_file"
+      );
+    }
+    if (
+      typeof record !== "object" ||
+      record === null ||
+      Array.isArray(record)
+    ) {
+      throw new BatchError(
+        `${location} is not a JSON object`,
+        "invalid_requests_file"
+      );
+    }
+
+    yield record.input !== undefined || record.messages !== undefined
+      ? readBatchRequest(record, location)
+      : toRequest(record, index, options, location);
+    index++;
+  }
+}
+
+/**
+ * Reads requests from a CSV file with a header row, one row at a time
+ * @param filePath Path of the CSV file
+ * @param options Column mapping, prompt template and default system prompt
+ */
+export async function* readCsvRequests(
+  filePath: string,
+  options: ReadRequestsOptions = {}
+): AsyncGenerator<AnyBatchRequest<ContentPart[]>> {
+  let header: string[] | undefined;
+  let index = 0;
+  for await (const row of parseCsv(readChunks(filePath), filePath)) {
+    if (!header) {
+      header = row;
+      continue;
+    }
+    const location = `Row ${index + 1} of ${filePath}`;
+    if (row.length !== header.length) {
+      throw new BatchError(
+        `${location} has ${row.length} fields, the header has ${header.length}`,
+        "invalid_requests_file"
+      );
+    }
+    const record = Object.fromEntries(
+      header.map((column, columnIndex) => [column, row[columnIndex]])
+    );
+    yield toRequest(record, index, options, location);
+    index++;
+  }
+}
+
+/**
+ * Formats results as JSONL, one result per line
+ */
+export async function* formatJsonlResults(
+  results: Results
+): AsyncGenerator<string> {
+  for await (const result of results) {
+    yield `${JSON.stringify(result)}\n`;
+  }
+}
+
+/**
+ * Formats results as CSV lines with a header row. Object outputs are
+ * flattened into one output.<path> column per field, other outputs and
+ * arrays are written to a single column, as JSON unless they are strings.
+ */
+export async function* formatCsvResults(
+  results: Results,
+  { outputColumns }: FormatCsvResultsOptions = {}
+): AsyncGenerator<string> {
+  let rows = results;
+  let columns = outputColumns;
+  if (!columns) {
+    const collected: BatchResponse<unknown>[] = [];
+    const paths = new Set<string>();
+    for await (const result of results) {
+      collected.push(result);
+      Object.keys(flattenOutput(result.output)).forEach((path) =>
+        paths.add(path)
+      );
+    }
+    rows = collected;
+    columns = [...paths];
+  }
+
+  yield formatCsvRow([
+    "customId",
+    ...columns.map((path) => (path ? `output.${path}` : "output")),
+    "errorCode",
+    "errorMessage",
+    "promptTokens",
+    "completionTokens",
+    "totalTokens",
+  ]);
+  for await (const result of rows) {
+    const fields = flattenOutput(result.output);
+    yield formatCsvRow([
+      result.customId,
+      ...columns.map((path) => fields[path] ?? ""),
+      result.error?.code ?? "",
+      result.error?.message ?? "",
+      String(result.usage?.promptTokens ?? ""),
+      String(result.usage?.completionTokens ?? ""),
+      String(result.usage?.totalTokens ?? ""),
+    ]);
+  }
+}
+
+/**
+ * Writes results to a JSONL file as they are read
+ * @param filePath Path of the file to write
+ * @param results Results, such as those of getObjectBatch or a results stream
+ */
+export async function writeJsonlResults(
+  filePath: string,
+  results: Results
+): Promise<void> {
+  await writeLines(filePath, formatJsonlResults(results));
+}
+
+/**
+ * Writes results to a CSV file, see formatCsvResults for the columns
+ * @param filePath Path of the file to write
+ * @param results Results, such as those of getObjectBatch or a results stream
+ * @param options Output columns to write
+ */
+export async function writeCsvResults(
+  filePath: string,
+  results: Results,
+  options?: FormatCsvResultsOptions
+): Promise<void> {
+  await writeLines(filePath, formatCsvResults(results, options));
+}
+
+function toRequest(
+  record: Record<string, unknown>,
+  index: number,
+  { columns = {}, template, systemPrompt }: ReadRequestsOptions,
+  location: string
+): AnyBatchRequest<ContentPart[]> {
+  const field = (name: string): string | undefined => {
+    const value = record[name];
+    if (value === undefined || value === null || value === "") {
+      return undefined;
+    }
+    return typeof value === "string" ? value : JSON.stringify(value);
+  };
+
+  const textField = columns.text ?? "text";
+  const text = template
+    ? template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, name: string) => {
+        if (!(name in record)) {
+          throw new BatchError(
+            `${location} has no ${name} field for the template`,
+            "invalid_requests_file"
+          );
+        }
+        return field(name) ?? "";
+      })
+    : field(textField);
+  if (text === undefined) {
+    throw new BatchError(
+      `${location} has no ${textField} field`,
+      "invalid_requests_file"
+    );
+  }
+
+  const input: ContentPart[] = [{ type: "text", text }];
+  const imageUrl = columns.imageUrl ? field(columns.imageUrl) : undefined;
+  if (imageUrl) {
+    input.push({ type: "image_url", image_url: { url: imageUrl } });
+  }
+  const system =
+    (columns.systemPrompt ? field(columns.systemPrompt) : undefined) ??
+    systemPrompt;
+
+  return {
+    customId: field(columns.customId ?? "customId") ?? `request-${index}`,
+    input,
+    ...(system ? { systemPrompt: system } : {}),
+  };
+}
+
+function readBatchRequest(
+  record: Record<string, unknown>,
+  location: string
+): AnyBatchRequest<ContentPart[]> {
+  const toParts = (content: unknown, field: string): ContentPart[] => {
+    if (typeof content === "string") {
+      return [{ type: "text", text: content }];
+    }
+    if (
+      Array.isArray(content) &&
+      content.every(
+        (part) => typeof part === "object" && typeof part?.type === "string"
+      )
+    ) {
+      return content;
+    }
+    throw new BatchError(
+      `${location} has ${field} that is neither text nor an array of content parts`,
+      "invalid_requests_file"
+    );
+  };
+
+  const { input, messages } = record;
+  if (input !== undefined && messages !== undefined) {
+    throw new BatchError(
+      `${location} has both an input and messages`,
+      "invalid_requests_file"
+    );
+  }
+  if (messages === undefined) {
+    return {
+      ...record,
+      input: toParts(input, "an input"),
+    } as AnyBatchRequest<ContentPart[]>;
+  }
+  if (!Array.isArray(messages)) {
+    throw new BatchError(
+      `${location} has messages that are not an array`,
+      "invalid_requests_file"
+    );
+  }
+  return {
+    ...record,
+    messages: messages.map((message) => ({
+      ...message,
+      content: toParts(message?.content, "a message"),
+    })),
+  } as AnyBatchRequest<ContentPart[]>;
+}
+
+async function* readChunks(filePath: string): AsyncGenerator<string> {
+  try {
+    let first = true;
+    for await (const chunk of fs.createReadStream(filePath, {
+      encoding: "utf8",
+    })) {
+      // Spreadsheet exports often start with a byte order mark
+      yield first ? chunk.replace(/^\uFEFF/, "") : chunk;
+      first = false;
+    }
+  } catch (error) {
+    throw new BatchError(
+      `Failed to read ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      "file_read_failed"
+    );
+  }
+}
+
+async function* readLines(filePath: string): AsyncGenerator<string> {
+  let buffer = "";
+  for await (const chunk of readChunks(filePath)) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      yield line.replace(/\r$/, "");
+    }
+  }
+  if (buffer) {
+    yield buffer.replace(/\r$/, "");
+  }
+}
+
+/**
+ * Parses CSV rows, including quoted fields with commas, quotes and line
+ * breaks, from chunks of text
+ */
+async function* parseCsv(
+  chunks: AsyncIterable<string>,
+  filePath: string
+): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  // A quote just closed a quoted field, unless another quote follows
+  let closedQuote = false;
+
+  for await (const chunk of chunks) {
+    for (const char of chunk) {
+      if (quoted) {
+        if (char === '"') {
+          quoted = false;
+          closedQuote = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && closedQuote) {
+        // An escaped quote inside a quoted field
+        field += '"';
+        quoted = true;
+      } else if (char === '"' && field === "") {
+        quoted = true;
+      } else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n") {
+        row.push(field);
+        // Blank lines are skipped
+        if (row.length > 1 || row[0] !== "") {
+          yield row;
+        }
+        row = [];
+        field = "";
+      } else if (char !== "\r") {
+        field += char;
+      }
+      closedQuote = false;
+    }
+  }
+
+  if (quoted) {
+    throw new BatchError(
+      `${filePath} ends inside a quoted field`,
+      "invalid_requests_file"
+    );
+  }
+  if (row.length > 0 || field !== "") {
+    row.push(field);
+    yield row;
+  }
+}
+
+function flattenOutput(output: unknown, path = ""): Record<string, string> {
+  if (output === undefined) {
+    return {};
+  }
+  if (output !== null && typeof output === "object" && !Array.isArray(output)) {
+    return Object.assign(
+      {},
+      ...Object.entries(output).map(([key, value]) =>
+        flattenOutput(value, path ? `${path}.${key}` : key)
+      )
+    );
+  }
+  return {
+    [path]: typeof output === "string" ? output : JSON.stringify(output),
+  };
+}
+
+function formatCsvRow(fields: string[]): string {
+  const escape = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  return `${fields.map(escape).join(",")}\n`;
+}
+
+async function writeLines(
+  filePath: string,
+  lines: AsyncIterable<string>
+): Promise<void> {
+  try {
+    await pipeline(Readable.from(lines), fs.createWriteStream(filePath));
+  } catch (error) {
+    if (error instanceof BatchError) {
+      throw error;
+    }
+    throw new BatchError(
+      `Failed to write ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      "file_write_failed"
+    );
+  }
+}
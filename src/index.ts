@@ -1,40 +1,180 @@
+import { z } from "zod";
 import {
   LanguageModel,
   LanguageModelConfig,
+  AnyBatchRequest,
   BatchRequest,
+  BatchMessage,
   BatchResponse,
   Batch,
   BatchError,
+  BatchLimits,
+  BatchProblem,
+  BatchRequestCounts,
+  BatchStatus,
   ContentPart,
+  ConversationBatchRequest,
+  EmbeddingOptions,
+  EmbeddingRequest,
+  GeminiModel,
+  GenerationOptions,
+  ListBatchesOptions,
+  OpenAICompatibleConfig,
+  OpenAICompatibleFeatures,
+  RenderedRequests,
+  MockModelConfig,
+  MockResponderContext,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+  getRequestMessages,
+  unsupportedEmbeddings,
+  unsupportedTextBatches,
+  unsupportedToolCalls,
 } from "./types";
 import { OpenAILanguageModel } from "./providers/openai";
+import { OpenAICompatibleLanguageModel } from "./providers/openai-compatible";
 import { AnthropicLanguageModel } from "./providers/anthropic";
+import { GeminiLanguageModel } from "./providers/gemini";
+import { MockLanguageModel } from "./providers/mock";
+import { FallbackLanguageModel } from "./providers/fallback";
+import {
+  BatchEventListeners,
+  InstrumentedLanguageModel,
+} from "./providers/instrumented";
+import {
+  encodeBatchGroupId,
+  getBatchOrGroup,
+  decodeBatchGroupId,
+  getResultsOrGroup,
+  measureRequests,
+  shardRequests,
+} from "./sharding";
+import {
+  validateResult,
+  validateResults,
+  validateToolCalls,
+} from "./validation";
+import { BatchStore } from "./store";
+import { assertValidBatch } from "./preflight";
 import { ChatModel as OpenAIModel } from "openai/resources/chat/chat";
+import { EmbeddingModel as OpenAIEmbeddingModel } from "openai/resources/embeddings";
 import { Model as AnthropicModel } from "@anthropic-ai/sdk/resources/messages/messages";
 
+export { MockLanguageModel, FallbackLanguageModel, InstrumentedLanguageModel };
+export {
+  BatchEventMap,
+  BatchEventName,
+  BatchEventListener,
+  BatchEventListeners,
+} from "./providers/instrumented";
+export {
+  waitForObjectBatch,
+  WaitForObjectBatchParams,
+  WaitForObjectBatchResponse,
+  BatchProgress,
+  WaitOptions,
+} from "./wait";
+export {
+  validateResult,
+  validateResults,
+  validateToolCalls,
+  ValidateResultsOptions,
+} from "./validation";
+export { retryFailed, RetryFailedParams, RetryFailedResponse } from "./retry";
+export { validateBatch, ValidateBatchParams } from "./preflight";
+export {
+  estimateBatchCost,
+  summarizeCost,
+  getModelPricing,
+  BatchCostEstimate,
+  CostSummary,
+  EstimateBatchCostParams,
+  ModelCost,
+  ModelPricing,
+  SummarizeCostOptions,
+} from "./cost";
+export {
+  BatchStore,
+  BatchRecord,
+  JsonFileBatchStore,
+  resumeAll,
+  ResumeAllParams,
+  ResumedBatch,
+} from "./store";
+export {
+  readJsonlRequests,
+  readCsvRequests,
+  formatJsonlResults,
+  formatCsvResults,
+  writeJsonlResults,
+  writeCsvResults,
+  FormatCsvResultsOptions,
+  ReadRequestsOptions,
+  RequestColumns,
+} from "./files";
+export {
+  renderBatch,
+  RenderBatchParams,
+  RenderedBatch,
+  RenderedBatchStats,
+} from "./render";
+
 // Re-export types
 export {
   LanguageModel,
   LanguageModelConfig,
+  AnyBatchRequest,
   BatchRequest,
+  BatchMessage,
   BatchResponse,
   Batch,
   BatchError,
+  BatchLimits,
+  BatchProblem,
+  BatchRequestCounts,
+  BatchStatus,
   ContentPart,
+  ConversationBatchRequest,
+  EmbeddingOptions,
+  EmbeddingRequest,
+  GenerationOptions,
+  ListBatchesOptions,
+  OpenAICompatibleConfig,
+  OpenAICompatibleFeatures,
+  RenderedRequests,
+  MockModelConfig,
+  MockResponderContext,
+  ToolCall,
+  ToolChoice,
+  ToolDefinition,
+  getRequestMessages,
 };
 
 /**
  * Creates an OpenAI language model instance
- * @param modelId The OpenAI model ID (e.g. 'gpt-4', 'gpt-3.5-turbo')
+ * @param modelId The OpenAI model ID (e.g. 'gpt-4', 'gpt-3.5-turbo'), or an
+ * embedding model ID for embedBatch
  * @param config Configuration options including API key
  */
 export function openai(
-  modelId: OpenAIModel,
+  modelId: OpenAIModel | OpenAIEmbeddingModel,
   config?: LanguageModelConfig
 ): LanguageModel<Array<ContentPart>> {
   return new OpenAILanguageModel(modelId, config);
 }
 
+/**
+ * Creates a language model for any server exposing an OpenAI-compatible
+ * files and batches API (e.g. xAI, Together, Groq, vLLM)
+ * @param config Base URL, API key, model ID, provider name and supported features
+ */
+export function openaiCompatible(
+  config: OpenAICompatibleConfig
+): LanguageModel<Array<ContentPart>> {
+  return new OpenAICompatibleLanguageModel(config);
+}
+
 /**
  * Creates an Anthropic language model instance
  * @param modelId The Anthropic model ID (e.g. 'claude-3-opus-20240229')
@@ -47,51 +187,432 @@ export function anthropic(
   return new AnthropicLanguageModel(modelId, config);
 }
 
+/**
+ * Creates a Google Gemini language model instance
+ * @param modelId The Gemini model ID (e.g. 'gemini-2.5-flash')
+ * @param config Configuration options including API key
+ */
+export function google(
+  modelId: GeminiModel,
+  config?: LanguageModelConfig
+): LanguageModel<Array<ContentPart>> {
+  return new GeminiLanguageModel(modelId, config);
+}
+
+/**
+ * Creates an in-memory language model that simulates the batch lifecycle,
+ * for testing code built on batch-ai without network access
+ * @param config Responder producing each output, plus delays and outcomes
+ */
+export function mockModel(config: MockModelConfig): MockLanguageModel {
+  return new MockLanguageModel(config);
+}
+
+/**
+ * Wraps models in order of preference. Requests whose batch fails, or which
+ * error, expire or go missing, are resubmitted to the next model, and each
+ * result is annotated with the provider that produced it.
+ * @param models The primary model followed by its fallbacks
+ */
+export function fallbackModel<Input>(
+  models: LanguageModel<Input>[]
+): FallbackLanguageModel<Input> {
+  return new FallbackLanguageModel(models);
+}
+
+/**
+ * Wraps a model so every batch it submits, polls and reads emits lifecycle
+ * events, for metrics, notifications or audit logs in one place
+ * @param model The model to wrap
+ * @param listeners Listeners by event name, more can be added with `on`
+ */
+export function instrumentModel<Input>(
+  model: LanguageModel<Input>,
+  listeners?: BatchEventListeners
+): InstrumentedLanguageModel<Input> {
+  return new InstrumentedLanguageModel(model, listeners);
+}
+
 export interface CreateObjectBatchParams<Input> {
   model: LanguageModel<Input>;
-  requests: BatchRequest<Input>[];
+  requests: AnyBatchRequest<Input>[];
   outputSchema: any;
+  /**
+   * Split requests across several provider batches when they exceed the
+   * provider's limits. Pass limits to override the provider defaults.
+   */
+  sharding?: boolean | Partial<BatchLimits>;
+  /** Record the submitted batch so it can be resumed after a restart */
+  store?: BatchStore;
+  /** Name of the output schema, stored so resumeAll can validate results */
+  schemaName?: string;
+  /**
+   * Run validateBatch before submitting and throw an invalid_batch error
+   * listing every problem (default true)
+   */
+  validate?: boolean;
 }
 
 export interface CreateObjectBatchResponse {
   batchId: string;
+  /** Provider batch IDs behind a sharded batch group */
+  shardIds?: string[];
 }
 
 /**
  * Creates a batch of requests to be processed by a language model
  * @param params Object containing the model, prompts, and output schema
- * @returns Promise resolving to the batch ID
+ * @returns Promise resolving to the batch ID, a batch group ID when sharded
  */
 export async function createObjectBatch<Input>({
   model,
   requests,
   outputSchema,
+  sharding,
+  store,
+  schemaName,
+  validate = true,
 }: CreateObjectBatchParams<Input>): Promise<CreateObjectBatchResponse> {
-  const batchId = await model.createBatch(requests, outputSchema);
-  return { batchId };
+  if (validate) {
+    assertValidBatch({ model, requests, outputSchema });
+  }
+
+  const response = await submitObjectBatch(
+    model,
+    requests,
+    outputSchema,
+    sharding
+  );
+
+  if (store) {
+    const now = new Date();
+    await store.save({
+      batchId: response.batchId,
+      provider: model.provider,
+      modelId: model.modelId,
+      schemaName,
+      requestIds: requests.map((request) => request.customId),
+      status: "validating",
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  return response;
+}
+
+async function submitObjectBatch<Input>(
+  model: LanguageModel<Input>,
+  requests: AnyBatchRequest<Input>[],
+  outputSchema: any,
+  sharding: CreateObjectBatchParams<Input>["sharding"]
+): Promise<CreateObjectBatchResponse> {
+  if (!sharding) {
+    const batchId = await model.createBatch(requests, outputSchema);
+    return { batchId };
+  }
+
+  const limits = {
+    ...model.batchLimits,
+    ...(typeof sharding === "object" ? sharding : {}),
+  };
+  const shards = shardRequests(
+    requests,
+    limits,
+    outputSchema,
+    await measureRequests(model, requests, outputSchema)
+  );
+  if (shards.length <= 1) {
+    const batchId = await model.createBatch(requests, outputSchema);
+    return { batchId };
+  }
+
+  const shardIds: string[] = [];
+  try {
+    for (const shard of shards) {
+      shardIds.push(await model.createBatch(shard, outputSchema));
+    }
+  } catch (error) {
+    // Don't leave a partial group running when a later shard fails
+    await Promise.allSettled(shardIds.map((id) => model.cancelBatch?.(id)));
+    throw error;
+  }
+
+  return { batchId: encodeBatchGroupId(shardIds), shardIds };
 }
 
-export interface GetObjectBatchParams<Input> {
+export interface GetObjectBatchParams<Input, TOutput = unknown> {
   model: LanguageModel<Input>;
   batchId: string;
+  /**
+   * Schema to validate each output against, usually the one the batch was
+   * created with. Outputs that fail validation are moved into `error`.
+   */
+  outputSchema?: z.ZodSchema<TOutput>;
+  /** Keep the unvalidated output on each result as `raw` */
+  keepRaw?: boolean;
 }
 
 /**
- * Gets the status and results of a batch
+ * Gets the status and results of a batch or sharded batch group
  * @param params Object containing the model and batch ID
  * @returns Promise resolving to the batch status and results
  */
 export async function getObjectBatch<TInput, TOutput>({
   model,
   batchId,
-}: GetObjectBatchParams<TInput>): Promise<{
+  outputSchema,
+  keepRaw,
+}: GetObjectBatchParams<TInput, TOutput>): Promise<{
   batch: Batch;
   results?: BatchResponse<TOutput>[];
+}> {
+  const batch = await getBatchOrGroup(model, batchId);
+
+  if (batch.status === "completed") {
+    const results = await getResultsOrGroup(batchId, (id) =>
+      model.getBatchResults<TOutput>(id)
+    );
+    return {
+      batch,
+      results: outputSchema
+        ? validateResults(results, outputSchema, { keepRaw })
+        : results,
+    };
+  }
+
+  return { batch };
+}
+
+/**
+ * Streams the results of a completed batch or sharded batch group one at a
+ * time, without holding the whole result set in memory. Shards are read in
+ * submission order.
+ * @param params Object containing the model and batch ID
+ * @returns Async iterable of (optionally validated) results
+ */
+export async function* streamObjectBatchResults<TInput, TOutput>({
+  model,
+  batchId,
+  outputSchema,
+  keepRaw,
+}: GetObjectBatchParams<TInput, TOutput>): AsyncIterable<
+  BatchResponse<TOutput>
+> {
+  for (const id of decodeBatchGroupId(batchId)) {
+    for await (const result of model.streamBatchResults<TOutput>(id)) {
+      yield outputSchema
+        ? validateResult(result, outputSchema, { keepRaw })
+        : result;
+    }
+  }
+}
+
+export interface ListObjectBatchesParams<Input> extends ListBatchesOptions {
+  model: LanguageModel<Input>;
+}
+
+/**
+ * Lists the batches in the model provider's account, newest first. Shards
+ * of a sharded batch group are listed individually.
+ * @param params Object containing the model and list options
+ * @returns Async iterable of batches, fetched page by page
+ */
+export function listObjectBatches<Input>({
+  model,
+  ...options
+}: ListObjectBatchesParams<Input>): AsyncIterable<Batch> {
+  return model.listBatches(options);
+}
+
+export interface GenerateTextBatchParams<Input> {
+  model: LanguageModel<Input>;
+  requests: AnyBatchRequest<Input>[];
+}
+
+export interface GenerateTextBatchResponse {
+  batchId: string;
+}
+
+/**
+ * Creates a batch of free-form text requests to be processed by a language model
+ * @param params Object containing the model and prompts
+ * @returns Promise resolving to the batch ID
+ */
+export async function generateTextBatch<Input>({
+  model,
+  requests,
+}: GenerateTextBatchParams<Input>): Promise<GenerateTextBatchResponse> {
+  if (!model.createTextBatch) {
+    throw unsupportedTextBatches(model.provider);
+  }
+  const batchId = await model.createTextBatch(requests);
+  return { batchId };
+}
+
+export interface GetTextBatchParams<Input> {
+  model: LanguageModel<Input>;
+  batchId: string;
+}
+
+/**
+ * Gets the status and text results of a batch created with generateTextBatch
+ * @param params Object containing the model and batch ID
+ * @returns Promise resolving to the batch status and results
+ */
+export async function getTextBatch<TInput>({
+  model,
+  batchId,
+}: GetTextBatchParams<TInput>): Promise<{
+  batch: Batch;
+  results?: BatchResponse<string>[];
+}> {
+  const batch = await getBatchOrGroup(model, batchId);
+
+  if (batch.status === "completed") {
+    const results = await getResultsOrGroup(batchId, (id) =>
+      model.getTextBatchResults(id)
+    );
+    return { batch, results };
+  }
+
+  return { batch };
+}
+
+export interface ToolCallBatchParams<Input> {
+  model: LanguageModel<Input>;
+  requests: AnyBatchRequest<Input>[];
+  /** Tools for requests that don't declare their own */
+  tools?: Record<string, ToolDefinition>;
+  /** Tool choice for requests that don't set their own */
+  toolChoice?: ToolChoice;
+  /**
+   * Run validateBatch before submitting and throw an invalid_batch error
+   * listing every problem (default true)
+   */
+  validate?: boolean;
+}
+
+export interface ToolCallBatchResponse {
+  batchId: string;
+}
+
+/**
+ * Creates a batch of requests that may call the tools they declare
+ * @param params Object containing the model, prompts and tools
+ * @returns Promise resolving to the batch ID
+ */
+export async function toolCallBatch<Input>({
+  model,
+  requests,
+  tools,
+  toolChoice,
+  validate = true,
+}: ToolCallBatchParams<Input>): Promise<ToolCallBatchResponse> {
+  const toolRequests = requests.map((request) => ({
+    ...request,
+    tools: request.tools ?? tools,
+    toolChoice: request.toolChoice ?? toolChoice,
+  }));
+  if (validate) {
+    assertValidBatch({ model, requests: toolRequests });
+  }
+
+  if (!model.createToolBatch) {
+    throw unsupportedToolCalls(model.provider);
+  }
+  const batchId = await model.createToolBatch(toolRequests);
+  return { batchId };
+}
+
+export interface GetToolCallBatchParams<Input> {
+  model: LanguageModel<Input>;
+  batchId: string;
+  /**
+   * Every tool the batch's requests declared, to validate the arguments of
+   * each call against. Calls are returned unvalidated when omitted.
+   */
+  tools?: Record<string, ToolDefinition>;
+  /** Keep the unvalidated tool calls on each result as `raw` */
+  keepRaw?: boolean;
+}
+
+/**
+ * Gets the status and tool calls of a batch created with toolCallBatch
+ * @param params Object containing the model, batch ID and tools
+ * @returns Promise resolving to the batch status and each request's tool calls
+ */
+export async function getToolCallBatch<TInput>({
+  model,
+  batchId,
+  tools,
+  keepRaw,
+}: GetToolCallBatchParams<TInput>): Promise<{
+  batch: Batch;
+  results?: BatchResponse<ToolCall[]>[];
+}> {
+  const batch = await model.getBatch(batchId);
+
+  if (batch.status === "completed") {
+    const results = await model.getToolBatchResults(batchId);
+    return {
+      batch,
+      results: tools ? validateToolCalls(results, tools, { keepRaw }) : results,
+    };
+  }
+
+  return { batch };
+}
+
+export interface EmbedBatchParams<Input> {
+  model: LanguageModel<Input>;
+  requests: EmbeddingRequest[];
+  /** Length of the returned vectors, for models that can shorten them */
+  dimensions?: number;
+}
+
+export interface EmbedBatchResponse {
+  batchId: string;
+}
+
+/**
+ * Creates a batch that embeds the text of each request
+ * @param params Object containing the embedding model, texts and dimensions
+ * @returns Promise resolving to the batch ID
+ */
+export async function embedBatch<Input>({
+  model,
+  requests,
+  dimensions,
+}: EmbedBatchParams<Input>): Promise<EmbedBatchResponse> {
+  if (!model.createEmbeddingBatch) {
+    throw unsupportedEmbeddings(model.provider);
+  }
+  const batchId = await model.createEmbeddingBatch(requests, { dimensions });
+  return { batchId };
+}
+
+export interface GetEmbeddingBatchParams<Input> {
+  model: LanguageModel<Input>;
+  batchId: string;
+}
+
+/**
+ * Gets the status and embeddings of a batch created with embedBatch
+ * @param params Object containing the model and batch ID
+ * @returns Promise resolving to the batch status and each request's embedding
+ */
+export async function getEmbeddingBatch<TInput>({
+  model,
+  batchId,
+}: GetEmbeddingBatchParams<TInput>): Promise<{
+  batch: Batch;
+  results?: BatchResponse<number[]>[];
 }> {
   const batch = await model.getBatch(batchId);
 
   if (batch.status === "completed") {
-    const results = await model.getBatchResults<TOutput>(batchId);
+    const results = await model.getEmbeddingBatchResults(batchId);
     return { batch, results };
   }
 
@@ -0,0 +1,94 @@
+import { z } from "zod";
+import {
+  BatchError,
+  BatchProblem,
+  AnyBatchRequest,
+  LanguageModel,
+  getRequestMessages,
+} from "./types";
+
+export interface ValidateBatchParams<Input> {
+  model: LanguageModel<Input>;
+  requests: AnyBatchRequest<Input>[];
+  outputSchema?: z.ZodSchema<unknown>;
+}
+
+/**
+ * Checks a batch locally before it is submitted: request IDs and inputs, and
+ * every provider-specific check of the model, including whether it accepts
+ * the output schema
+ * @param params Object containing the model, requests and output schema
+ * @returns Every problem found, empty when the batch can be submitted
+ */
+export function validateBatch<Input>({
+  model,
+  requests,
+  outputSchema,
+}: ValidateBatchParams<Input>): BatchProblem[] {
+  const problems: BatchProblem[] = [];
+  if (requests.length === 0) {
+    problems.push({
+      code: "empty_batch",
+      message: "A batch needs at least one request",
+    });
+  }
+
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const request of requests) {
+    const { customId } = request;
+    if (!customId) {
+      problems.push({
+        code: "invalid_custom_id",
+        message: "Every request needs a custom ID",
+        customId,
+      });
+    } else if (seen.has(customId) && !duplicates.has(customId)) {
+      duplicates.add(customId);
+      problems.push({
+        code: "duplicate_custom_id",
+        message: `Custom ID ${customId} is used by more than one request`,
+        customId,
+      });
+    }
+    seen.add(customId);
+
+    if (getRequestMessages(request).some(({ content }) => isEmpty(content))) {
+      problems.push({
+        code: "empty_input",
+        message: `Request ${customId} has an empty input`,
+        customId,
+      });
+    }
+  }
+
+  return [...problems, ...model.validateRequests(requests, outputSchema)];
+}
+
+/**
+ * Throws an invalid_batch error listing every problem validateBatch finds
+ */
+export function assertValidBatch<Input>(
+  params: ValidateBatchParams<Input>
+): void {
+  const problems = validateBatch(params);
+  if (problems.length > 0) {
+    throw new BatchError(
+      `Batch failed validation:\n${problems
+        .map((problem) => `- ${problem.message}`)
+        .join("\n")}`,
+      "invalid_batch"
+    );
+  }
+}
+
+function isEmpty(content: unknown): boolean {
+  if (typeof content === "string") {
+    return content.trim() === "";
+  }
+  if (Array.isArray(content)) {
+    // Only text parts can be blank, any other part carries content
+    return content.every((part) => part?.type === "text" && !part.text?.trim());
+  }
+  return content === undefined || content === null;
+}
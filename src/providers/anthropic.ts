@@ -1,21 +1,62 @@
 import { Anthropic } from "@anthropic-ai/sdk";
-import { MessageBatchIndividualResponse } from "@anthropic-ai/sdk/resources/messages/batches";
-import { Model as AnthropicModel } from "@anthropic-ai/sdk/resources/messages/messages";
+import {
+  Message,
+  MessageCreateParamsBase,
+  Model as AnthropicModel,
+  TextBlockParam,
+  Tool,
+  Usage,
+} from "@anthropic-ai/sdk/resources/messages/messages";
+import {
+  BatchCreateParams,
+  MessageBatch,
+  MessageBatchResult,
+} from "@anthropic-ai/sdk/resources/messages/batches";
 import { z } from "zod";
 import {
   BatchError,
-  BatchRequest,
+  BatchOutput,
+  AnyBatchRequest,
   BatchResponse,
   Batch,
   LanguageModel,
   LanguageModelConfig,
   BatchStatus,
   ContentPart,
+  ListBatchesOptions,
+  RenderedRequests,
+  ToolCall,
+  GenerationOptions,
+  getRequestMessages,
 } from "../types";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  parseDataUrl,
+  resolveFileParts,
+  unsupportedContentPart,
+} from "../content";
+
+const DEFAULT_MAX_TOKENS = 2048;
+
+const CACHE_CONTROL = { type: "ephemeral" as const };
+
+// Anthropic rejects requests with more cache breakpoints than this
+const MAX_CACHE_BREAKPOINTS = 4;
+
+const LIST_PAGE_SIZE = 100;
 
 export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
   public readonly provider = "anthropic" as const;
+  public readonly batchLimits = {
+    maxRequests: 100000,
+    maxBytes: 256 * 1024 * 1024,
+  };
+  protected readonly unsupportedGenerationOptions = ["seed" as const];
+  protected readonly supportsAssistantPrefill = true;
+  protected readonly customIdRule = {
+    pattern: /^[a-zA-Z0-9_-]{1,64}$/,
+    description: "1 to 64 letters, digits, underscores or hyphens",
+  };
   private client: Anthropic;
 
   constructor(modelId: AnthropicModel, config?: LanguageModelConfig) {
@@ -27,72 +68,240 @@ export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
 
   private convertContentParts(parts: ContentPart[]): any[] {
     return parts.map((part) => {
-      if (part.type === "text") {
-        return {
-          type: "text",
-          text: part.text || "",
-        };
-      } else if (part.type === "image_url" && part.image_url) {
-        // Anthropic expects images as base64 or with media type
-        // For now, we'll pass the URL and let Anthropic handle it
-        return {
-          type: "image",
-          source: {
-            type: "url",
-            url: part.image_url.url,
+      const block = this.convertContentPart(part);
+      return part.cache ? { ...block, cache_control: CACHE_CONTROL } : block;
+    });
+  }
+
+  private convertContentPart(part: ContentPart): any {
+    if (part.type === "text") {
+      return {
+        type: "text",
+        text: part.text || "",
+      };
+    } else if (part.type === "image_url" && part.image_url) {
+      // Data URLs have to be sent as base64 sources, Anthropic only fetches
+      // http(s) URLs
+      const dataUrl = parseDataUrl(part.image_url.url);
+      return {
+        type: "image",
+        source: dataUrl
+          ? {
+              type: "base64",
+              media_type: dataUrl.mediaType,
+              data: dataUrl.data,
+            }
+          : { type: "url", url: part.image_url.url },
+      };
+    } else if (part.type === "image_base64" && part.image_base64) {
+      return {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: part.image_base64.mediaType,
+          data: part.image_base64.data,
+        },
+      };
+    } else if (
+      part.type === "document" &&
+      (part.document?.data || part.document?.url)
+    ) {
+      return {
+        type: "document",
+        source: part.document.data
+          ? {
+              type: "base64",
+              media_type: "application/pdf",
+              data: part.document.data,
+            }
+          : { type: "url", url: part.document.url },
+      };
+    }
+    return unsupportedContentPart(this.provider, part);
+  }
+
+  private buildSystem(
+    request: AnyBatchRequest<Array<ContentPart>>
+  ): string | TextBlockParam[] {
+    // Cache directives can only be attached to system prompt blocks
+    return request.cacheSystemPrompt
+      ? [
+          {
+            type: "text",
+            text: request.systemPrompt ?? "",
+            cache_control: CACHE_CONTROL,
           },
-        };
+        ]
+      : request.systemPrompt ?? "";
+  }
+
+  protected checkRequests(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): void {
+    super.checkRequests(requests);
+
+    for (const request of requests) {
+      const breakpoints =
+        (request.cacheSystemPrompt ? 1 : 0) +
+        getRequestMessages(request)
+          .flatMap((message) => message.content)
+          .filter((part) => part.cache).length;
+      if (breakpoints > MAX_CACHE_BREAKPOINTS) {
+        throw new BatchError(
+          `Anthropic allows at most ${MAX_CACHE_BREAKPOINTS} cacheable parts per request (request ${request.customId})`,
+          "too_many_cache_breakpoints"
+        );
       }
-      throw new Error(`Unsupported content part type: ${part.type}`);
-    });
+    }
+  }
+
+  protected checkContentParts(parts: ContentPart[]): void {
+    this.convertContentParts(parts.filter((part) => part.type !== "file"));
+  }
+
+  private buildGenerationParams(
+    options: GenerationOptions
+  ): Pick<
+    MessageCreateParamsBase,
+    "max_tokens" | "temperature" | "top_p" | "stop_sequences"
+  > {
+    return {
+      // Anthropic requires an output limit on every request
+      max_tokens: options.maxOutputTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options.temperature,
+      top_p: options.topP,
+      stop_sequences: options.stop,
+    };
   }
 
   async createBatch(
-    requests: BatchRequest<Array<ContentPart>>[],
+    requests: AnyBatchRequest<Array<ContentPart>>[],
     outputSchema: z.ZodSchema<any>
   ): Promise<string> {
-    try {
-      // Convert Zod schema to a JSON schema that matches Anthropic's types
-      const jsonSchema = zodToJsonSchema(outputSchema);
+    this.checkRequests(requests);
+    return this.submitBatch(requests, { type: "object", schema: outputSchema });
+  }
 
-      const batch = await this.client.messages.batches.create({
-        requests: requests.map((request) => ({
-          custom_id: request.customId,
-          params: {
-            model: this.modelId,
-            max_tokens: 2048,
-            messages: [
-              {
-                role: "user",
-                content: this.convertContentParts(request.input),
-              },
-            ],
-            // Add system prompt if provided
-            ...(request.systemPrompt ? { system: request.systemPrompt } : {}),
-            tools: [
-              {
-                name: "format_response",
-                description:
-                  "Format the response according to the required schema",
-                input_schema: {
-                  type: "object" as const,
-                  properties: {
-                    response: jsonSchema,
-                  },
-                },
-              },
-            ],
-            tool_choice: {
-              type: "tool",
-              name: "format_response",
-              disable_parallel_tool_use: true,
-            },
-          },
+  async createTextBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    this.checkRequests(requests);
+    return this.submitBatch(requests, { type: "text" });
+  }
+
+  async createToolBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    this.checkToolRequests(requests);
+    return this.submitBatch(requests, { type: "tools" });
+  }
+
+  /**
+   * Structured output is requested through a forced tool call, tool call
+   * batches send the request's own tools and free-form text batches none
+   */
+  private buildTools(
+    request: AnyBatchRequest<Array<ContentPart>>,
+    output: BatchOutput
+  ): Pick<MessageCreateParamsBase, "tools" | "tool_choice"> {
+    if (output.type === "object") {
+      return {
+        tools: [this.buildFormatTool(output.schema)],
+        tool_choice: {
+          type: "tool" as const,
+          name: "format_response",
+          disable_parallel_tool_use: true,
+        },
+      };
+    }
+
+    // A "none" choice is sent as no tools at all
+    const choice = request.toolChoice ?? "auto";
+    if (output.type === "text" || choice === "none") {
+      return {};
+    }
+    return {
+      tools: Object.entries(request.tools ?? {}).map(([name, tool]) => ({
+        name,
+        description: tool.description,
+        input_schema: zodToJsonSchema(tool.parameters) as Tool["input_schema"],
+      })),
+      tool_choice:
+        typeof choice === "object"
+          ? { type: "tool" as const, name: choice.name }
+          : { type: choice === "required" ? ("any" as const) : choice },
+    };
+  }
+
+  private buildFormatTool(schema: z.ZodSchema<unknown>): Tool {
+    return {
+      name: "format_response",
+      description: "Format the response according to the required schema",
+      input_schema: {
+        type: "object" as const,
+        properties: {
+          // Convert Zod schema to a JSON schema that matches Anthropic's types
+          response: zodToJsonSchema(schema),
+        },
+      },
+    };
+  }
+
+  async renderRequests(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<RenderedRequests> {
+    this.checkRequests(requests);
+    if (!outputSchema) {
+      return {
+        requests: await this.buildBatchRequests(requests, { type: "text" }),
+      };
+    }
+    return {
+      requests: await this.buildBatchRequests(requests, {
+        type: "object",
+        schema: outputSchema,
+      }),
+      outputSchema: this.buildFormatTool(outputSchema).input_schema,
+    };
+  }
+
+  private async buildBatchRequests(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    output: BatchOutput
+  ): Promise<BatchCreateParams.Request[]> {
+    const resolvedRequests = await resolveFileParts(requests);
+    return resolvedRequests.map((request) => ({
+      custom_id: request.customId,
+      params: {
+        model: this.modelId,
+        ...this.buildGenerationParams(this.resolveGenerationOptions(request)),
+        messages: getRequestMessages(request).map((message) => ({
+          role: message.role,
+          content: this.convertContentParts(message.content),
         })),
+        // Add system prompt if provided
+        ...(request.systemPrompt ? { system: this.buildSystem(request) } : {}),
+        ...this.buildTools(request, output),
+      },
+    }));
+  }
+
+  private async submitBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    output: BatchOutput
+  ): Promise<string> {
+    try {
+      const batch = await this.client.messages.batches.create({
+        requests: await this.buildBatchRequests(requests, output),
       });
 
       return batch.id;
     } catch (error) {
+      // Requests the provider can't accept are reported as is
+      if (error instanceof BatchError) {
+        throw error;
+      }
       throw new BatchError(
         error instanceof Error ? error.message : "Unknown error",
         "batch_creation_failed"
@@ -103,22 +312,7 @@ export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
   async getBatch(batchId: string): Promise<Batch> {
     try {
       const batch = await this.client.messages.batches.retrieve(batchId);
-
-      return {
-        id: batch.id,
-        status: this.mapStatus(batch.processing_status),
-        requestCounts: {
-          total: this.calculateTotal(batch.request_counts),
-          completed: batch.request_counts.succeeded,
-          failed: batch.request_counts.errored,
-          processing: batch.request_counts.processing,
-          cancelled: batch.request_counts.canceled,
-          expired: batch.request_counts.expired,
-        },
-        createdAt: new Date(batch.created_at),
-        completedAt: batch.ended_at ? new Date(batch.ended_at) : undefined,
-        expiresAt: batch.expires_at ? new Date(batch.expires_at) : undefined,
-      };
+      return this.mapBatch(batch);
     } catch (error) {
       throw new BatchError(
         error instanceof Error ? error.message : "Unknown error",
@@ -128,6 +322,45 @@ export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
     }
   }
 
+  listBatches(options: ListBatchesOptions = {}): AsyncIterable<Batch> {
+    return this.filterBatches(this.listAllBatches(options.after), options);
+  }
+
+  private async *listAllBatches(after?: string): AsyncGenerator<Batch> {
+    try {
+      // The page promise fetches further pages as it is iterated
+      for await (const batch of this.client.messages.batches.list({
+        limit: LIST_PAGE_SIZE,
+        ...(after ? { after_id: after } : {}),
+      })) {
+        yield this.mapBatch(batch);
+      }
+    } catch (error) {
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "batch_list_failed"
+      );
+    }
+  }
+
+  private mapBatch(batch: MessageBatch): Batch {
+    return {
+      id: batch.id,
+      status: this.mapStatus(batch.processing_status),
+      requestCounts: {
+        total: this.calculateTotal(batch.request_counts),
+        completed: batch.request_counts.succeeded,
+        failed: batch.request_counts.errored,
+        processing: batch.request_counts.processing,
+        cancelled: batch.request_counts.canceled,
+        expired: batch.request_counts.expired,
+      },
+      createdAt: new Date(batch.created_at),
+      completedAt: batch.ended_at ? new Date(batch.ended_at) : undefined,
+      expiresAt: batch.expires_at ? new Date(batch.expires_at) : undefined,
+    };
+  }
+
   private calculateTotal(counts: {
     processing: number;
     succeeded: number;
@@ -144,9 +377,45 @@ export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
     );
   }
 
-  async getBatchResults<TOutput = unknown>(
+  streamBatchResults<TOutput = unknown>(
     batchId: string
-  ): Promise<BatchResponse<TOutput>[]> {
+  ): AsyncIterable<BatchResponse<TOutput>> {
+    return this.streamResults(batchId, (message) => {
+      const toolUseBlock = message.content.find(
+        (block) => block.type === "tool_use" && block.name === "format_response"
+      );
+      return toolUseBlock?.type === "tool_use"
+        ? ((toolUseBlock.input as any).response as TOutput)
+        : undefined;
+    });
+  }
+
+  streamTextBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<string>> {
+    return this.streamResults(batchId, (message) =>
+      message.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("")
+    );
+  }
+
+  streamToolBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<ToolCall[]>> {
+    return this.streamResults(batchId, (message) =>
+      message.content.flatMap((block) =>
+        block.type === "tool_use"
+          ? [{ id: block.id, name: block.name, arguments: block.input }]
+          : []
+      )
+    );
+  }
+
+  private async *streamResults<TOutput>(
+    batchId: string,
+    extractOutput: (message: Message) => TOutput | undefined
+  ): AsyncGenerator<BatchResponse<TOutput>> {
     try {
       const batch = await this.client.messages.batches.retrieve(batchId);
 
@@ -159,47 +428,23 @@ export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
       }
 
       const results = await this.client.messages.batches.results(batchId);
-      const responseArray: MessageBatchIndividualResponse[] = [];
 
+      // Yield results as they are read from the results stream
       for await (const result of results) {
-        responseArray.push(result);
-      }
-
-      return responseArray.map((result) => {
-        let output: TOutput | undefined = undefined;
-
-        if (result.result.type === "succeeded") {
-          const toolUseBlock = result.result.message.content.find(
-            (block) =>
-              block.type === "tool_use" && block.name === "format_response"
-          );
-          if (toolUseBlock?.type === "tool_use") {
-            output = (toolUseBlock.input as any).response as TOutput;
-          }
-        }
+        const message =
+          result.result.type === "succeeded"
+            ? result.result.message
+            : undefined;
 
-        return {
+        yield {
           customId: result.custom_id,
-          output,
-          usage:
-            result.result.type === "succeeded"
-              ? {
-                  promptTokens: result.result.message.usage.input_tokens,
-                  completionTokens: result.result.message.usage.output_tokens,
-                  totalTokens:
-                    result.result.message.usage.input_tokens +
-                    result.result.message.usage.output_tokens,
-                }
-              : undefined,
-          error:
-            result.result.type !== "succeeded"
-              ? {
-                  code: result.result.type,
-                  message: "Request failed",
-                }
-              : undefined,
+          output: message ? extractOutput(message) : undefined,
+          finishReason: message?.stop_reason ?? undefined,
+          model: message?.model,
+          usage: message ? this.mapUsage(message.usage) : undefined,
+          error: this.mapError(result.result),
         };
-      });
+      }
     } catch (error) {
       throw new BatchError(
         error instanceof Error ? error.message : "Unknown error",
@@ -209,6 +454,51 @@ export class AnthropicLanguageModel extends LanguageModel<Array<ContentPart>> {
     }
   }
 
+  private mapError(
+    result: MessageBatchResult
+  ): BatchResponse<unknown>["error"] {
+    switch (result.type) {
+      case "succeeded":
+        return undefined;
+      case "errored":
+        return {
+          code: result.error?.error?.type ?? "errored",
+          message: result.error?.error?.message ?? "Request failed",
+        };
+      case "canceled":
+        return {
+          code: "canceled",
+          message: "Request was canceled before it was processed",
+        };
+      case "expired":
+        return {
+          code: "expired",
+          message: "Request expired before it was processed",
+        };
+      default:
+        return {
+          code: (result as { type: string }).type,
+          message: "Request failed",
+        };
+    }
+  }
+
+  private mapUsage(usage: Usage): BatchResponse<unknown>["usage"] {
+    // Anthropic counts cached input separately from input_tokens
+    const cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+    const cacheWriteTokens = usage.cache_creation_input_tokens ?? 0;
+    const promptTokens =
+      usage.input_tokens + cacheReadTokens + cacheWriteTokens;
+    return {
+      promptTokens,
+      completionTokens: usage.output_tokens,
+      totalTokens: promptTokens + usage.output_tokens,
+      ...(cacheReadTokens || cacheWriteTokens
+        ? { cacheReadTokens, cacheWriteTokens }
+        : {}),
+    };
+  }
+
   async cancelBatch(batchId: string): Promise<void> {
     try {
       await this.client.messages.batches.cancel(batchId);
@@ -0,0 +1,417 @@
+import { z } from "zod";
+import {
+  Batch,
+  BatchError,
+  BatchLimits,
+  BatchOutput,
+  BatchProblem,
+  AnyBatchRequest,
+  BatchResponse,
+  BatchStatus,
+  LanguageModel,
+  ListBatchesOptions,
+  RenderedRequests,
+  ToolCall,
+  unsupportedDryRun,
+  unsupportedTextBatches,
+  unsupportedToolCalls,
+} from "../types";
+
+interface FallbackStage {
+  /** Index of the model this stage was submitted to */
+  modelIndex: number;
+  batchId: string;
+  customIds: string[];
+}
+
+interface FallbackBatch<Input> {
+  id: string;
+  requests: AnyBatchRequest<Input>[];
+  output: BatchOutput;
+  stages: FallbackStage[];
+  /** Latest status of the last stage's batch */
+  current?: Batch;
+  results: Map<string, BatchResponse<unknown>>;
+  createdAt: Date;
+  completedAt?: Date;
+  cancelled: boolean;
+  advancing?: Promise<void>;
+}
+
+const ENDED_STATUSES: BatchStatus[] = [
+  "completed",
+  "failed",
+  "expired",
+  "cancelled",
+];
+
+/**
+ * Language model that submits to the first model and resubmits every request
+ * whose batch failed, or which errored, expired or went missing, to the next
+ * model. Fallback batches are tracked in memory, so they have to be polled
+ * from the process that created them.
+ */
+export class FallbackLanguageModel<Input> extends LanguageModel<Input> {
+  public readonly provider = "fallback" as const;
+  public readonly batchLimits: BatchLimits;
+  private batches = new Map<string, FallbackBatch<Input>>();
+  private nextId = 1;
+
+  constructor(public readonly models: LanguageModel<Input>[]) {
+    super(models[0]?.modelId ?? "", models[0]?.config);
+    if (models.length === 0) {
+      throw new BatchError(
+        "fallbackModel needs at least one model",
+        "invalid_fallback_models"
+      );
+    }
+    // Every request may end up with any of the models
+    this.batchLimits = {
+      maxRequests: Math.min(
+        ...models.map((model) => model.batchLimits.maxRequests)
+      ),
+      maxBytes: Math.min(...models.map((model) => model.batchLimits.maxBytes)),
+    };
+  }
+
+  async createBatch(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema: z.ZodSchema<unknown>
+  ): Promise<string> {
+    return this.submitBatch(requests, { type: "object", schema: outputSchema });
+  }
+
+  async createTextBatch(requests: AnyBatchRequest<Input>[]): Promise<string> {
+    return this.submitBatch(requests, { type: "text" });
+  }
+
+  async createToolBatch(requests: AnyBatchRequest<Input>[]): Promise<string> {
+    return this.submitBatch(requests, { type: "tools" });
+  }
+
+  private async submitBatch(
+    requests: AnyBatchRequest<Input>[],
+    output: BatchOutput
+  ): Promise<string> {
+    const batch: FallbackBatch<Input> = {
+      id: `fallback_batch_${this.nextId++}`,
+      requests: [...requests],
+      output,
+      stages: [],
+      results: new Map(),
+      createdAt: new Date(),
+      cancelled: false,
+    };
+
+    const error = await this.submitStage(batch, 0, batch.requests);
+    if (error) {
+      throw error;
+    }
+    this.batches.set(batch.id, batch);
+    return batch.id;
+  }
+
+  validateRequests(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): BatchProblem[] {
+    // Every request may end up with any of the models
+    return this.models.flatMap((model) =>
+      model.validateRequests(requests, outputSchema)
+    );
+  }
+
+  // Requests are sent to the first model unless they fall back
+  async renderRequests(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<RenderedRequests> {
+    const [model] = this.models;
+    if (!model.renderRequests) {
+      throw unsupportedDryRun(model.provider);
+    }
+    return model.renderRequests(requests, outputSchema);
+  }
+
+  async getBatch(batchId: string): Promise<Batch> {
+    const batch = this.findBatch(batchId, "batch_retrieval_failed");
+    await this.advance(batch);
+
+    const successes = [...batch.results.values()].filter(
+      (result) => !result.error
+    ).length;
+    const total = batch.requests.length;
+
+    if (batch.completedAt) {
+      // A batch that produced nothing at all keeps its last batch's status
+      const lastStatus = batch.current?.status ?? "failed";
+      return {
+        id: batch.id,
+        status: successes > 0 ? "completed" : lastStatus,
+        requestCounts: {
+          total,
+          completed: successes,
+          failed: total - successes,
+        },
+        createdAt: batch.createdAt,
+        completedAt: batch.completedAt,
+      };
+    }
+
+    const counts = batch.current?.requestCounts;
+    return {
+      id: batch.id,
+      status: batch.current?.status ?? "validating",
+      requestCounts: {
+        total,
+        completed: successes + (counts?.completed ?? 0),
+        failed: counts?.failed ?? 0,
+        ...(counts?.processing !== undefined
+          ? { processing: counts.processing }
+          : {}),
+      },
+      createdAt: batch.createdAt,
+      expiresAt: batch.current?.expiresAt,
+    };
+  }
+
+  listBatches(options: ListBatchesOptions = {}): AsyncIterable<Batch> {
+    return this.filterBatches(this.listAllBatches(options.after), options);
+  }
+
+  private async *listAllBatches(after?: string): AsyncGenerator<Batch> {
+    const ids = [...this.batches.keys()].reverse();
+    const start = after === undefined ? 0 : ids.indexOf(after) + 1;
+    // An unknown cursor lists nothing rather than starting over
+    if (start === 0 && after !== undefined) {
+      return;
+    }
+    for (const id of ids.slice(start)) {
+      yield await this.getBatch(id);
+    }
+  }
+
+  async *streamBatchResults<TOutput = unknown>(
+    batchId: string
+  ): AsyncGenerator<BatchResponse<TOutput>> {
+    yield* (await this.readResults(batchId)) as BatchResponse<TOutput>[];
+  }
+
+  async *streamTextBatchResults(
+    batchId: string
+  ): AsyncGenerator<BatchResponse<string>> {
+    yield* (await this.readResults(batchId)) as BatchResponse<string>[];
+  }
+
+  async *streamToolBatchResults(
+    batchId: string
+  ): AsyncGenerator<BatchResponse<ToolCall[]>> {
+    yield* (await this.readResults(batchId)) as BatchResponse<ToolCall[]>[];
+  }
+
+  async cancelBatch(batchId: string): Promise<void> {
+    const batch = this.findBatch(batchId, "batch_cancellation_failed");
+    batch.cancelled = true;
+
+    const stage = batch.stages[batch.stages.length - 1];
+    await this.models[stage.modelIndex].cancelBatch?.(stage.batchId);
+  }
+
+  private async readResults(
+    batchId: string
+  ): Promise<BatchResponse<unknown>[]> {
+    const batch = this.findBatch(batchId, "results_retrieval_failed");
+    await this.advance(batch);
+    if (!batch.completedAt) {
+      throw new BatchError(
+        "Batch results not yet available",
+        "results_not_ready",
+        batchId
+      );
+    }
+
+    // Results are merged back into the original request order
+    return batch.requests.map(
+      (request) => batch.results.get(request.customId) as BatchResponse<unknown>
+    );
+  }
+
+  private advance(batch: FallbackBatch<Input>): Promise<void> {
+    // Concurrent polls share one advance so no stage is submitted twice
+    if (!batch.advancing) {
+      batch.advancing = this.advanceStages(batch).finally(() => {
+        batch.advancing = undefined;
+      });
+    }
+    return batch.advancing;
+  }
+
+  private async advanceStages(batch: FallbackBatch<Input>): Promise<void> {
+    while (!batch.completedAt) {
+      const stage = batch.stages[batch.stages.length - 1];
+      const model = this.models[stage.modelIndex];
+      const current = await model.getBatch(stage.batchId);
+      batch.current = current;
+      if (!ENDED_STATUSES.includes(current.status)) {
+        return;
+      }
+
+      const stageIds = new Set(stage.customIds);
+      for (const result of await this.readStageResults(batch, stage)) {
+        if (stageIds.has(result.customId)) {
+          batch.results.set(result.customId, {
+            ...result,
+            provider: model.provider,
+          });
+        }
+      }
+
+      const failedIds = new Set(
+        stage.customIds.filter(
+          (customId) => batch.results.get(customId)?.error !== undefined
+        )
+      );
+      for (const customId of stage.customIds) {
+        if (!batch.results.has(customId)) {
+          failedIds.add(customId);
+          batch.results.set(customId, {
+            customId,
+            provider: model.provider,
+            error:
+              current.status === "completed"
+                ? {
+                    code: "missing_result",
+                    message: "No result was returned for this request",
+                  }
+                : {
+                    code: `batch_${current.status}`,
+                    message: `Batch ended with status ${current.status}`,
+                  },
+          });
+        }
+      }
+
+      const nextIndex = stage.modelIndex + 1;
+      if (
+        failedIds.size === 0 ||
+        batch.cancelled ||
+        nextIndex >= this.models.length
+      ) {
+        batch.completedAt = new Date();
+        return;
+      }
+
+      await this.submitStage(
+        batch,
+        nextIndex,
+        batch.requests.filter((request) => failedIds.has(request.customId))
+      );
+    }
+  }
+
+  /**
+   * Submits requests to the first model from `fromIndex` on that accepts
+   * them. When none does, the batch is finished, keeping earlier errors for
+   * requests that had them, and the submission error is returned.
+   */
+  private async submitStage(
+    batch: FallbackBatch<Input>,
+    fromIndex: number,
+    requests: AnyBatchRequest<Input>[]
+  ): Promise<BatchError | undefined> {
+    let lastError: BatchError | undefined;
+
+    for (let index = fromIndex; index < this.models.length; index++) {
+      const model = this.models[index];
+      try {
+        const batchId = await createStageBatch(model, requests, batch.output);
+        batch.stages.push({
+          modelIndex: index,
+          batchId,
+          customIds: requests.map((request) => request.customId),
+        });
+        // Earlier errors are replaced by this stage's results
+        requests.forEach((request) => batch.results.delete(request.customId));
+        return undefined;
+      } catch (error) {
+        lastError =
+          error instanceof BatchError
+            ? error
+            : new BatchError(
+                error instanceof Error ? error.message : "Unknown error",
+                "batch_creation_failed"
+              );
+      }
+    }
+
+    const error =
+      lastError ??
+      new BatchError("No model accepted the batch", "batch_creation_failed");
+    for (const request of requests) {
+      if (!batch.results.has(request.customId)) {
+        batch.results.set(request.customId, {
+          customId: request.customId,
+          error: { code: error.code, message: error.message },
+        });
+      }
+    }
+    batch.completedAt = new Date();
+    return error;
+  }
+
+  private async readStageResults(
+    batch: FallbackBatch<Input>,
+    stage: FallbackStage
+  ): Promise<BatchResponse<unknown>[]> {
+    const model = this.models[stage.modelIndex];
+    try {
+      switch (batch.output.type) {
+        case "object":
+          return await model.getBatchResults(stage.batchId);
+        case "text":
+          return await model.getTextBatchResults(stage.batchId);
+        case "tools":
+          return await model.getToolBatchResults(stage.batchId);
+      }
+    } catch (error) {
+      // Failed and cancelled batches may have no results at all, in which
+      // case every request is treated as missing
+      if (
+        batch.current?.status !== "completed" &&
+        error instanceof BatchError
+      ) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private findBatch(batchId: string, code: string): FallbackBatch<Input> {
+    const batch = this.batches.get(batchId);
+    if (!batch) {
+      throw new BatchError(`Batch ${batchId} not found`, code, batchId);
+    }
+    return batch;
+  }
+}
+
+function createStageBatch<Input>(
+  model: LanguageModel<Input>,
+  requests: AnyBatchRequest<Input>[],
+  output: BatchOutput
+): Promise<string> {
+  switch (output.type) {
+    case "object":
+      return model.createBatch(requests, output.schema);
+    case "text":
+      if (!model.createTextBatch) {
+        throw unsupportedTextBatches(model.provider);
+      }
+      return model.createTextBatch(requests);
+    case "tools":
+      if (!model.createToolBatch) {
+        throw unsupportedToolCalls(model.provider);
+      }
+      return model.createToolBatch(requests);
+  }
+}
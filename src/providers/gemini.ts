@@ -0,0 +1,418 @@
+import {
+  BatchJob,
+  GenerateContentConfig,
+  GenerateContentResponse,
+  GoogleGenAI,
+  InlinedRequest,
+  Part,
+} from "@google/genai";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  parseDataUrl,
+  resolveFileParts,
+  unsupportedContentPart,
+} from "../content";
+import {
+  BatchError,
+  AnyBatchRequest,
+  BatchResponse,
+  Batch,
+  LanguageModel,
+  LanguageModelConfig,
+  BatchStatus,
+  ContentPart,
+  GeminiModel,
+  GenerationOptions,
+  ListBatchesOptions,
+  RenderedRequests,
+  getRequestMessages,
+} from "../types";
+import { parseJsonOutput } from "../validation";
+
+const LIST_PAGE_SIZE = 100;
+
+export class GeminiLanguageModel extends LanguageModel<Array<ContentPart>> {
+  public readonly provider = "google" as const;
+  // Inlined requests are capped by the request size rather than count
+  public readonly batchLimits = {
+    maxRequests: Infinity,
+    maxBytes: 20 * 1024 * 1024,
+  };
+  private client: GoogleGenAI;
+
+  constructor(modelId: GeminiModel, config?: LanguageModelConfig) {
+    super(modelId, config);
+    this.client = new GoogleGenAI({
+      apiKey: process.env.GEMINI_API_KEY || config?.apiKey,
+    });
+  }
+
+  private buildGenerationConfig(
+    options: GenerationOptions
+  ): GenerateContentConfig {
+    return {
+      temperature: options.temperature,
+      topP: options.topP,
+      stopSequences: options.stop,
+      seed: options.seed,
+      maxOutputTokens: options.maxOutputTokens,
+    };
+  }
+
+  protected checkContentParts(parts: ContentPart[]): void {
+    this.convertContentParts(parts.filter((part) => part.type !== "file"));
+  }
+
+  private convertContentParts(parts: ContentPart[]): Part[] {
+    return parts.map((part) => {
+      if (part.type === "text") {
+        return { text: part.text || "" };
+      } else if (part.type === "image_url" && part.image_url) {
+        const url = part.image_url.url;
+        // Data URLs are sent inline, anything else is referenced by URI
+        const dataUrl = parseDataUrl(url);
+        if (dataUrl) {
+          return {
+            inlineData: { mimeType: dataUrl.mediaType, data: dataUrl.data },
+          };
+        }
+        return { fileData: { fileUri: url, mimeType: guessImageType(url) } };
+      } else if (part.type === "image_base64" && part.image_base64) {
+        return {
+          inlineData: {
+            mimeType: part.image_base64.mediaType,
+            data: part.image_base64.data,
+          },
+        };
+      } else if (part.type === "document" && part.document?.data) {
+        return {
+          inlineData: { mimeType: "application/pdf", data: part.document.data },
+        };
+      } else if (part.type === "document" && part.document?.url) {
+        return {
+          fileData: { fileUri: part.document.url, mimeType: "application/pdf" },
+        };
+      }
+      return unsupportedContentPart(this.provider, part);
+    });
+  }
+
+  async createBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema: z.ZodSchema<any>
+  ): Promise<string> {
+    return this.submitBatch(requests, outputSchema);
+  }
+
+  async createTextBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    return this.submitBatch(requests);
+  }
+
+  async renderRequests(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<RenderedRequests> {
+    this.checkRequests(requests);
+    return {
+      requests: await this.buildInlinedRequests(requests, outputSchema),
+      ...(outputSchema ? { outputSchema: toGeminiSchema(outputSchema) } : {}),
+    };
+  }
+
+  private async buildInlinedRequests(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<InlinedRequest[]> {
+    const responseSchema = outputSchema
+      ? toGeminiSchema(outputSchema)
+      : undefined;
+
+    const resolvedRequests = await resolveFileParts(requests);
+    return resolvedRequests.map((request) => ({
+      contents: getRequestMessages(request).map((message) => ({
+        role: message.role === "assistant" ? "model" : "user",
+        parts: this.convertContentParts(message.content),
+      })),
+      // Gemini returns metadata alongside each response, which is how
+      // results are matched back to their custom IDs
+      metadata: { customId: request.customId },
+      config: {
+        ...this.buildGenerationConfig(this.resolveGenerationOptions(request)),
+        // Add system prompt if provided
+        ...(request.systemPrompt
+          ? { systemInstruction: request.systemPrompt }
+          : {}),
+        ...(responseSchema
+          ? { responseMimeType: "application/json", responseSchema }
+          : {}),
+      },
+    }));
+  }
+
+  private async submitBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema?: z.ZodSchema<any>
+  ): Promise<string> {
+    this.checkRequests(requests);
+
+    try {
+      const batch = await this.client.batches.create({
+        model: this.modelId,
+        src: await this.buildInlinedRequests(requests, outputSchema),
+      });
+
+      if (!batch.name) {
+        throw new Error("Batch job was created without a name");
+      }
+
+      return batch.name;
+    } catch (error) {
+      // Requests the provider can't accept are reported as is
+      if (error instanceof BatchError) {
+        throw error;
+      }
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "batch_creation_failed"
+      );
+    }
+  }
+
+  async getBatch(batchId: string): Promise<Batch> {
+    try {
+      const batch = await this.client.batches.get({ name: batchId });
+      return this.mapBatch(batch, batchId);
+    } catch (error) {
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "batch_retrieval_failed",
+        batchId
+      );
+    }
+  }
+
+  listBatches(options: ListBatchesOptions = {}): AsyncIterable<Batch> {
+    return this.filterBatches(this.listAllBatches(options.after), options);
+  }
+
+  private async *listAllBatches(after?: string): AsyncGenerator<Batch> {
+    try {
+      // Pages are keyed by opaque tokens rather than batch IDs, so batches up
+      // to and including `after` are skipped instead
+      let skipping = after !== undefined;
+      for await (const batch of await this.client.batches.list({
+        config: { pageSize: LIST_PAGE_SIZE },
+      })) {
+        if (skipping) {
+          skipping = batch.name !== after;
+          continue;
+        }
+        yield this.mapBatch(batch, batch.name ?? "");
+      }
+    } catch (error) {
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "batch_list_failed"
+      );
+    }
+  }
+
+  private mapBatch(batch: BatchJob, batchId: string): Batch {
+    return {
+      id: batch.name ?? batchId,
+      status: this.mapStatus(batch.state),
+      requestCounts: this.calculateCounts(batch),
+      createdAt: batch.createTime ? new Date(batch.createTime) : new Date(),
+      completedAt: batch.endTime ? new Date(batch.endTime) : undefined,
+    };
+  }
+
+  private calculateCounts(batch: BatchJob): Batch["requestCounts"] {
+    // Vertex reports completion stats, the Gemini API only exposes the
+    // inlined responses once the job has finished
+    if (batch.completionStats) {
+      const completed = Number(batch.completionStats.successfulCount ?? 0);
+      const failed = Number(batch.completionStats.failedCount ?? 0);
+      const processing = Math.max(
+        Number(batch.completionStats.incompleteCount ?? 0),
+        0
+      );
+      return {
+        total: completed + failed + processing,
+        completed,
+        failed,
+        processing,
+      };
+    }
+
+    const responses = batch.dest?.inlinedResponses ?? [];
+    const failed = responses.filter((response) => response.error).length;
+    return {
+      total: responses.length,
+      completed: responses.length - failed,
+      failed,
+    };
+  }
+
+  streamBatchResults<TOutput = unknown>(
+    batchId: string
+  ): AsyncIterable<BatchResponse<TOutput>> {
+    return this.streamResults(
+      batchId,
+      (content) => parseJsonOutput(content) as TOutput
+    );
+  }
+
+  streamTextBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<string>> {
+    return this.streamResults(batchId, (content) => content);
+  }
+
+  private async *streamResults<TOutput>(
+    batchId: string,
+    parseContent: (content: string) => TOutput
+  ): AsyncGenerator<BatchResponse<TOutput>> {
+    try {
+      const batch = await this.client.batches.get({ name: batchId });
+
+      if (!batch.dest?.inlinedResponses) {
+        throw new BatchError(
+          "Batch results not yet available",
+          "results_not_ready",
+          batchId
+        );
+      }
+
+      // Inlined responses arrive with the batch job, so there is nothing to
+      // stream from the API beyond yielding them one at a time
+      for (const [index, result] of batch.dest.inlinedResponses.entries()) {
+        const response = result.response;
+        const candidate = response?.candidates?.[0];
+        const content = candidate?.content?.parts
+          ?.map((part) => part.text ?? "")
+          .join("");
+
+        yield {
+          customId: result.metadata?.customId ?? String(index),
+          output:
+            response && content !== undefined
+              ? parseContent(content)
+              : undefined,
+          finishReason: candidate?.finishReason,
+          model: response?.modelVersion,
+          usage: this.mapUsage(response),
+          error: result.error
+            ? {
+                code: String(result.error.code ?? "unknown_error"),
+                message: result.error.message || "Unknown error occurred",
+              }
+            : undefined,
+        };
+      }
+    } catch (error) {
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "results_retrieval_failed",
+        batchId
+      );
+    }
+  }
+
+  private mapUsage(
+    response?: GenerateContentResponse
+  ): BatchResponse<unknown>["usage"] {
+    const usage = response?.usageMetadata;
+    if (!usage) {
+      return undefined;
+    }
+    const promptTokens = usage.promptTokenCount ?? 0;
+    const completionTokens = usage.candidatesTokenCount ?? 0;
+    // Repeated prompt prefixes are cached implicitly and reported here
+    const cacheReadTokens = usage.cachedContentTokenCount;
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: usage.totalTokenCount ?? promptTokens + completionTokens,
+      ...(cacheReadTokens ? { cacheReadTokens } : {}),
+    };
+  }
+
+  async cancelBatch(batchId: string): Promise<void> {
+    try {
+      await this.client.batches.cancel({ name: batchId });
+    } catch (error) {
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "batch_cancellation_failed",
+        batchId
+      );
+    }
+  }
+
+  private mapStatus(status?: string): BatchStatus {
+    switch (status) {
+      case "JOB_STATE_QUEUED":
+      case "JOB_STATE_PENDING":
+        return "validating";
+      case "JOB_STATE_RUNNING":
+      case "JOB_STATE_PAUSED":
+      case "JOB_STATE_UPDATING":
+        return "in_progress";
+      case "JOB_STATE_SUCCEEDED":
+      case "JOB_STATE_PARTIALLY_SUCCEEDED":
+        return "completed";
+      case "JOB_STATE_EXPIRED":
+        return "expired";
+      case "JOB_STATE_CANCELLING":
+        return "cancelling";
+      case "JOB_STATE_CANCELLED":
+        return "cancelled";
+      default:
+        return "failed";
+    }
+  }
+}
+
+/**
+ * Converts a Zod schema to the OpenAPI subset accepted by Gemini's
+ * `responseSchema`, which rejects `additionalProperties` and `$schema`
+ */
+function toGeminiSchema(schema: z.ZodSchema<any>): Record<string, unknown> {
+  const strip = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(strip);
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value)
+          .filter(
+            ([key]) => key !== "additionalProperties" && key !== "$schema"
+          )
+          .map(([key, child]) => [key, strip(child)])
+      );
+    }
+    return value;
+  };
+
+  return strip(
+    zodToJsonSchema(schema, { target: "openApi3", $refStrategy: "none" })
+  ) as Record<string, unknown>;
+}
+
+function guessImageType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  switch (extension) {
+    case "png":
+      return "image/png";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    default:
+      return "image/jpeg";
+  }
+}
@@ -0,0 +1,276 @@
+import { z } from "zod";
+import {
+  Batch,
+  BatchLimits,
+  BatchProblem,
+  AnyBatchRequest,
+  BatchResponse,
+  BatchStatus,
+  EmbeddingOptions,
+  EmbeddingRequest,
+  LanguageModel,
+  ListBatchesOptions,
+  RenderedRequests,
+  ToolCall,
+  unsupportedDryRun,
+  unsupportedEmbeddings,
+  unsupportedTextBatches,
+  unsupportedToolCalls,
+} from "../types";
+
+/**
+ * Payloads of the batch lifecycle events, by event name
+ */
+export interface BatchEventMap {
+  /** A batch was created */
+  submitted: {
+    batchId: string;
+    requestCount: number;
+    output: "object" | "text" | "tools" | "embeddings";
+  };
+  /** A batch was polled */
+  progress: { batch: Batch };
+  /** A polled batch has another status than when it was last polled */
+  statusChanged: { batch: Batch; previousStatus?: BatchStatus };
+  /** A polled batch has just completed */
+  completed: { batch: Batch };
+  /** A polled batch has just failed, expired or been cancelled */
+  failed: { batch: Batch };
+  /** Every result of a batch has been read */
+  resultsFetched: { batchId: string; resultCount: number; errorCount: number };
+  /** A result was read with an error */
+  itemError: { batchId: string; result: BatchResponse<unknown> };
+}
+
+export type BatchEventName = keyof BatchEventMap;
+
+export type BatchEventListener<E extends BatchEventName> = (
+  event: BatchEventMap[E]
+) => void | Promise<void>;
+
+export type BatchEventListeners = {
+  [E in BatchEventName]?: BatchEventListener<E>;
+};
+
+const FAILED_STATUSES: BatchStatus[] = ["failed", "expired", "cancelled"];
+
+/**
+ * Language model that passes every call through to another model and emits
+ * lifecycle events along the way. Listeners are not awaited, and their
+ * errors are ignored so instrumentation never breaks a batch call.
+ */
+export class InstrumentedLanguageModel<Input> extends LanguageModel<Input> {
+  public readonly provider: LanguageModel<Input>["provider"];
+  public readonly batchLimits: BatchLimits;
+  private listeners = new Map<
+    BatchEventName,
+    Set<BatchEventListener<BatchEventName>>
+  >();
+  // Last polled status per batch, to detect status changes
+  private statuses = new Map<string, BatchStatus>();
+
+  constructor(
+    public readonly model: LanguageModel<Input>,
+    listeners: BatchEventListeners = {}
+  ) {
+    super(model.modelId, model.config);
+    // Stores and resumeAll match models by provider, so the wrapper keeps it
+    this.provider = model.provider;
+    this.batchLimits = model.batchLimits;
+    for (const [event, listener] of Object.entries(listeners)) {
+      this.on(
+        event as BatchEventName,
+        listener as BatchEventListener<BatchEventName>
+      );
+    }
+  }
+
+  /**
+   * Adds a listener for an event
+   * @returns A function that removes the listener again
+   */
+  on<E extends BatchEventName>(
+    event: E,
+    listener: BatchEventListener<E>
+  ): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener as BatchEventListener<BatchEventName>);
+    this.listeners.set(event, listeners);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends BatchEventName>(
+    event: E,
+    listener: BatchEventListener<E>
+  ): void {
+    this.listeners
+      .get(event)
+      ?.delete(listener as BatchEventListener<BatchEventName>);
+  }
+
+  async createBatch(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema: z.ZodSchema<unknown>
+  ): Promise<string> {
+    return this.submit(requests.length, "object", () =>
+      this.model.createBatch(requests, outputSchema)
+    );
+  }
+
+  async createTextBatch(requests: AnyBatchRequest<Input>[]): Promise<string> {
+    return this.submit(requests.length, "text", () => {
+      if (!this.model.createTextBatch) {
+        throw unsupportedTextBatches(this.model.provider);
+      }
+      return this.model.createTextBatch(requests);
+    });
+  }
+
+  async createToolBatch(requests: AnyBatchRequest<Input>[]): Promise<string> {
+    return this.submit(requests.length, "tools", () => {
+      if (!this.model.createToolBatch) {
+        throw unsupportedToolCalls(this.model.provider);
+      }
+      return this.model.createToolBatch(requests);
+    });
+  }
+
+  async createEmbeddingBatch(
+    requests: EmbeddingRequest[],
+    options?: EmbeddingOptions
+  ): Promise<string> {
+    return this.submit(requests.length, "embeddings", () => {
+      if (!this.model.createEmbeddingBatch) {
+        throw unsupportedEmbeddings(this.model.provider);
+      }
+      return this.model.createEmbeddingBatch(requests, options);
+    });
+  }
+
+  private async submit(
+    requestCount: number,
+    output: BatchEventMap["submitted"]["output"],
+    create: () => Promise<string>
+  ): Promise<string> {
+    const batchId = await create();
+    this.emit("submitted", { batchId, requestCount, output });
+    return batchId;
+  }
+
+  validateRequests(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): BatchProblem[] {
+    return this.model.validateRequests(requests, outputSchema);
+  }
+
+  async renderRequests(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<RenderedRequests> {
+    if (!this.model.renderRequests) {
+      throw unsupportedDryRun(this.model.provider);
+    }
+    return this.model.renderRequests(requests, outputSchema);
+  }
+
+  async getBatch(batchId: string): Promise<Batch> {
+    const batch = await this.model.getBatch(batchId);
+    const previousStatus = this.statuses.get(batchId);
+    this.statuses.set(batchId, batch.status);
+
+    this.emit("progress", { batch });
+    if (batch.status !== previousStatus) {
+      this.emit("statusChanged", { batch, previousStatus });
+      if (batch.status === "completed") {
+        this.emit("completed", { batch });
+      } else if (FAILED_STATUSES.includes(batch.status)) {
+        this.emit("failed", { batch });
+      }
+    }
+    return batch;
+  }
+
+  listBatches(options?: ListBatchesOptions): AsyncIterable<Batch> {
+    return this.model.listBatches(options);
+  }
+
+  streamBatchResults<TOutput = unknown>(
+    batchId: string
+  ): AsyncIterable<BatchResponse<TOutput>> {
+    return this.observeResults(batchId, () =>
+      this.model.streamBatchResults<TOutput>(batchId)
+    );
+  }
+
+  streamTextBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<string>> {
+    return this.observeResults(batchId, () => {
+      if (!this.model.streamTextBatchResults) {
+        throw unsupportedTextBatches(this.model.provider, batchId);
+      }
+      return this.model.streamTextBatchResults(batchId);
+    });
+  }
+
+  streamToolBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<ToolCall[]>> {
+    return this.observeResults(batchId, () => {
+      if (!this.model.streamToolBatchResults) {
+        throw unsupportedToolCalls(this.model.provider, batchId);
+      }
+      return this.model.streamToolBatchResults(batchId);
+    });
+  }
+
+  streamEmbeddingBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<number[]>> {
+    return this.observeResults(batchId, () => {
+      if (!this.model.streamEmbeddingBatchResults) {
+        throw unsupportedEmbeddings(this.model.provider, batchId);
+      }
+      return this.model.streamEmbeddingBatchResults(batchId);
+    });
+  }
+
+  async cancelBatch(batchId: string): Promise<void> {
+    await this.model.cancelBatch?.(batchId);
+  }
+
+  /**
+   * Passes results through, emitting itemError for each failed one and
+   * resultsFetched once the last has been read
+   */
+  private async *observeResults<TOutput>(
+    batchId: string,
+    stream: () => AsyncIterable<BatchResponse<TOutput>>
+  ): AsyncGenerator<BatchResponse<TOutput>> {
+    let resultCount = 0;
+    let errorCount = 0;
+    for await (const result of stream()) {
+      resultCount++;
+      if (result.error) {
+        errorCount++;
+        this.emit("itemError", { batchId, result });
+      }
+      yield result;
+    }
+    this.emit("resultsFetched", { batchId, resultCount, errorCount });
+  }
+
+  private emit<E extends BatchEventName>(
+    event: E,
+    payload: BatchEventMap[E]
+  ): void {
+    for (const listener of this.listeners.get(event) ?? []) {
+      try {
+        Promise.resolve(listener(payload)).catch(() => undefined);
+      } catch {
+        // A failing listener must not fail the call it observes
+      }
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import { z } from "zod";
+import {
+  BatchError,
+  BatchOutput,
+  AnyBatchRequest,
+  BatchResponse,
+  Batch,
+  LanguageModel,
+  BatchStatus,
+  ContentPart,
+  ListBatchesOptions,
+  MockModelConfig,
+  MockResponderContext,
+  ToolCall,
+  getRequestMessages,
+} from "../types";
+
+interface MockBatch {
+  id: string;
+  requests: AnyBatchRequest<Array<ContentPart>>[];
+  outputSchema?: z.ZodSchema<any>;
+  toolCalls?: boolean;
+  createdAt: Date;
+  cancelledAt?: Date;
+  results?: BatchResponse<unknown>[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * In-memory language model that simulates the batch lifecycle without any
+ * network access. Outputs are produced by the configured responder.
+ */
+export class MockLanguageModel extends LanguageModel<Array<ContentPart>> {
+  public readonly provider = "mock" as const;
+  private batches = new Map<string, MockBatch>();
+  private nextId = 1;
+
+  constructor(private readonly mockConfig: MockModelConfig) {
+    super(mockConfig.modelId ?? "mock-model");
+  }
+
+  async createBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema: z.ZodSchema<any>
+  ): Promise<string> {
+    return this.submitBatch(requests, { type: "object", schema: outputSchema });
+  }
+
+  async createTextBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    return this.submitBatch(requests, { type: "text" });
+  }
+
+  async createToolBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    this.checkToolRequests(requests);
+    return this.submitBatch(requests, { type: "tools" });
+  }
+
+  private async submitBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    output: BatchOutput
+  ): Promise<string> {
+    if (this.mockConfig.rejectCreate) {
+      throw new BatchError(
+        "Mock batch creation failed",
+        "batch_creation_failed"
+      );
+    }
+
+    const id = `mock_batch_${this.nextId++}`;
+    this.batches.set(id, {
+      id,
+      requests: [...requests],
+      outputSchema: output.type === "object" ? output.schema : undefined,
+      toolCalls: output.type === "tools" || undefined,
+      createdAt: new Date(),
+    });
+    return id;
+  }
+
+  /**
+   * Returns the requests submitted with a batch, for asserting on in tests
+   */
+  getSubmittedRequests(batchId: string): AnyBatchRequest<Array<ContentPart>>[] {
+    return [...this.findBatch(batchId, "batch_retrieval_failed").requests];
+  }
+
+  async getBatch(batchId: string): Promise<Batch> {
+    const batch = this.findBatch(batchId, "batch_retrieval_failed");
+    const status = this.currentStatus(batch);
+    const total = batch.requests.length;
+    const ended = ["completed", "expired", "cancelled"].includes(status);
+    const results = ended ? await this.resolveResults(batch, status) : [];
+    const count = (code?: string): number =>
+      results.filter((result) =>
+        code ? result.error?.code === code : !result.error
+      ).length;
+
+    return {
+      id: batch.id,
+      status,
+      requestCounts: {
+        total,
+        completed: count(),
+        failed: results.filter(
+          (result) =>
+            result.error &&
+            result.error.code !== "expired" &&
+            result.error.code !== "cancelled"
+        ).length,
+        processing: status === "in_progress" ? total : 0,
+        cancelled: count("cancelled"),
+        expired: count("expired"),
+      },
+      createdAt: batch.createdAt,
+      completedAt: ended ? this.endedAt(batch) : undefined,
+      expiresAt: new Date(batch.createdAt.getTime() + DAY_MS),
+    };
+  }
+
+  listBatches(options: ListBatchesOptions = {}): AsyncIterable<Batch> {
+    return this.filterBatches(this.listAllBatches(options.after), options);
+  }
+
+  private async *listAllBatches(after?: string): AsyncGenerator<Batch> {
+    const ids = [...this.batches.keys()].reverse();
+    const start = after === undefined ? 0 : ids.indexOf(after) + 1;
+    // An unknown cursor lists nothing rather than starting over
+    if (start === 0 && after !== undefined) {
+      return;
+    }
+    for (const id of ids.slice(start)) {
+      yield await this.getBatch(id);
+    }
+  }
+
+  async *streamBatchResults<TOutput = unknown>(
+    batchId: string
+  ): AsyncGenerator<BatchResponse<TOutput>> {
+    const results = await this.readResults(batchId);
+    yield* results as BatchResponse<TOutput>[];
+  }
+
+  async *streamTextBatchResults(
+    batchId: string
+  ): AsyncGenerator<BatchResponse<string>> {
+    for (const result of await this.readResults(batchId)) {
+      yield {
+        ...result,
+        output:
+          result.output === undefined || typeof result.output === "string"
+            ? (result.output as string | undefined)
+            : JSON.stringify(result.output),
+      };
+    }
+  }
+
+  async *streamToolBatchResults(
+    batchId: string
+  ): AsyncGenerator<BatchResponse<ToolCall[]>> {
+    const results = await this.readResults(batchId);
+    yield* results as BatchResponse<ToolCall[]>[];
+  }
+
+  async cancelBatch(batchId: string): Promise<void> {
+    const batch = this.findBatch(batchId, "batch_cancellation_failed");
+    const status = this.currentStatus(batch);
+    if (status !== "validating" && status !== "in_progress") {
+      throw new BatchError(
+        `Cannot cancel a batch with status ${status}`,
+        "batch_cancellation_failed",
+        batchId
+      );
+    }
+    batch.cancelledAt = new Date();
+  }
+
+  private async readResults(
+    batchId: string
+  ): Promise<BatchResponse<unknown>[]> {
+    const batch = this.findBatch(batchId, "results_retrieval_failed");
+    const status = this.currentStatus(batch);
+    if (!["completed", "expired", "cancelled"].includes(status)) {
+      throw new BatchError(
+        "Batch results not yet available",
+        "results_not_ready",
+        batchId
+      );
+    }
+    return this.resolveResults(batch, status);
+  }
+
+  private findBatch(batchId: string, code: string): MockBatch {
+    const batch = this.batches.get(batchId);
+    if (!batch) {
+      throw new BatchError(`Batch ${batchId} not found`, code, batchId);
+    }
+    return batch;
+  }
+
+  private currentStatus(batch: MockBatch): BatchStatus {
+    const validatingDelay = this.mockConfig.validatingDelay ?? 0;
+    const processingDelay = this.mockConfig.processingDelay ?? 0;
+    const elapsed = Date.now() - batch.createdAt.getTime();
+
+    if (batch.cancelledAt) {
+      const cancelling =
+        Date.now() - batch.cancelledAt.getTime() <
+        (this.mockConfig.cancellingDelay ?? 0);
+      return cancelling ? "cancelling" : "cancelled";
+    }
+    if (elapsed < validatingDelay) {
+      return "validating";
+    }
+    if (elapsed < validatingDelay + processingDelay) {
+      return "in_progress";
+    }
+    return this.mockConfig.outcome ?? "completed";
+  }
+
+  private endedAt(batch: MockBatch): Date {
+    if (batch.cancelledAt) {
+      return new Date(
+        batch.cancelledAt.getTime() + (this.mockConfig.cancellingDelay ?? 0)
+      );
+    }
+    return new Date(
+      batch.createdAt.getTime() +
+        (this.mockConfig.validatingDelay ?? 0) +
+        (this.mockConfig.processingDelay ?? 0)
+    );
+  }
+
+  private async resolveResults(
+    batch: MockBatch,
+    status: BatchStatus
+  ): Promise<BatchResponse<unknown>[]> {
+    if (status === "expired" || status === "cancelled") {
+      return batch.requests.map((request) => ({
+        customId: request.customId,
+        error: {
+          code: status,
+          message: `Request ${status} before it was processed`,
+        },
+      }));
+    }
+
+    // Responders run once per batch so repeated reads return stable results
+    if (!batch.results) {
+      batch.results = await Promise.all(
+        batch.requests.map((request) =>
+          this.respond(request, {
+            batchId: batch.id,
+            outputSchema: batch.outputSchema,
+            toolCalls: batch.toolCalls,
+          })
+        )
+      );
+    }
+    return batch.results;
+  }
+
+  private async respond(
+    request: AnyBatchRequest<Array<ContentPart>>,
+    context: MockResponderContext
+  ): Promise<BatchResponse<unknown>> {
+    const promptTokens = estimateTokens(
+      [
+        request.systemPrompt ?? "",
+        ...getRequestMessages(request).flatMap((message) =>
+          message.content.map((part) => part.text ?? "")
+        ),
+      ].join(" ")
+    );
+
+    try {
+      const output = await this.mockConfig.responder(request, context);
+      const completionTokens = estimateTokens(
+        typeof output === "string" ? output : JSON.stringify(output)
+      );
+      return {
+        customId: request.customId,
+        output,
+        finishReason: "stop",
+        model: this.modelId,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+        },
+      };
+    } catch (error) {
+      return {
+        customId: request.customId,
+        error: {
+          code:
+            error instanceof BatchError ? error.code : "mock_request_failed",
+          message: error instanceof Error ? error.message : "Unknown error",
+        },
+      };
+    }
+  }
+}
+
+// Roughly four characters per token, which is close enough for usage figures
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
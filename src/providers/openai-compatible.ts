@@ -0,0 +1,59 @@
+import { OpenAI } from "openai";
+import { z } from "zod";
+import {
+  BatchProblem,
+  OpenAICompatibleConfig,
+  OpenAICompatibleFeatures,
+} from "../types";
+import { OpenAILanguageModel } from "./openai";
+
+/**
+ * Language model for servers exposing an OpenAI-shaped `/v1/files` and
+ * `/v1/batches` API (xAI, Together, Groq, vLLM, ...)
+ */
+export class OpenAICompatibleLanguageModel extends OpenAILanguageModel {
+  // Identifies the server in errors, batch records and fallback results
+  public readonly provider: string;
+  public readonly name: string;
+  public readonly features: Required<OpenAICompatibleFeatures>;
+  protected readonly schemaInPrompt: boolean;
+
+  constructor(config: OpenAICompatibleConfig) {
+    super(
+      config.modelId,
+      config,
+      // Explicit, so the client doesn't send the OpenAI key and organization
+      // from the environment to another server
+      new OpenAI({
+        apiKey: config.apiKey ?? "",
+        baseURL: config.baseURL,
+        organization: null,
+        project: null,
+      })
+    );
+    this.provider = config.name;
+    this.name = config.name;
+    this.features = {
+      structuredOutputs: config.features?.structuredOutputs ?? true,
+    };
+    this.schemaInPrompt = !this.features.structuredOutputs;
+  }
+
+  protected checkOutputSchema(
+    outputSchema: z.ZodSchema<unknown>
+  ): BatchProblem[] {
+    // JSON mode accepts any schema, since it is only described in the prompt
+    return this.features.structuredOutputs
+      ? super.checkOutputSchema(outputSchema)
+      : [];
+  }
+
+  protected buildResponseFormat(
+    outputSchema: z.ZodSchema<any>
+  ): Record<string, unknown> {
+    if (this.features.structuredOutputs) {
+      return super.buildResponseFormat(outputSchema);
+    }
+    return { response_format: { type: "json_object" } };
+  }
+}
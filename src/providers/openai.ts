@@ -5,69 +5,320 @@ import * as path from "path";
 import { z } from "zod";
 import {
   BatchError,
-  BatchRequest,
+  BatchOutput,
+  BatchProblem,
+  AnyBatchRequest,
   BatchResponse,
   Batch,
   LanguageModel,
   LanguageModelConfig,
   BatchStatus,
+  ListBatchesOptions,
+  RenderedRequests,
+  ToolCall,
   ContentPart,
+  EmbeddingOptions,
+  EmbeddingRequest,
+  GenerationOptions,
+  getRequestMessages,
 } from "../types";
+import { resolveFileParts, unsupportedContentPart } from "../content";
+import { parseJsonOutput } from "../validation";
 import { zodResponseFormat } from "openai/helpers/zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
 import { ChatModel } from "openai/resources/chat/chat";
+import { ChatCompletionMessage } from "openai/resources/chat/completions";
+import { CompletionUsage } from "openai/resources/completions";
+
+// Largest page the batches list endpoint returns
+const LIST_PAGE_SIZE = 100;
+
+// String formats strict structured outputs accept
+const STRICT_STRING_FORMATS = [
+  "date-time",
+  "time",
+  "date",
+  "duration",
+  "email",
+  "hostname",
+  "ipv4",
+  "ipv6",
+  "uuid",
+];
+
+interface JsonSchema {
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema | JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
 
 export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
-  public readonly provider = "openai" as const;
-  private client: OpenAI;
+  public readonly provider: LanguageModel<Array<ContentPart>>["provider"] =
+    "openai";
+  public readonly batchLimits = {
+    maxRequests: 50000,
+    maxBytes: 200 * 1024 * 1024,
+  };
+  protected client: OpenAI;
+  // Set by servers that only support JSON mode, which are sent the output
+  // schema in the system prompt
+  protected readonly schemaInPrompt: boolean = false;
 
-  constructor(modelId: ChatModel, config?: LanguageModelConfig) {
+  constructor(
+    modelId: ChatModel | (string & {}),
+    config?: LanguageModelConfig,
+    client?: OpenAI
+  ) {
     super(modelId, config);
-    this.client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || config?.apiKey,
+    this.client =
+      client ??
+      new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY || config?.apiKey,
+      });
+  }
+
+  private buildMessages(
+    request: AnyBatchRequest<Array<ContentPart>>,
+    outputSchema?: z.ZodSchema<any>
+  ): Array<Record<string, unknown>> {
+    const messages = [];
+    // Without strict structured outputs the schema can only be enforced
+    // through the prompt, so describe it in the system message
+    const system = [
+      request.systemPrompt,
+      outputSchema && this.schemaInPrompt
+        ? `Respond only with a JSON object matching this JSON schema:\n${JSON.stringify(
+            zodToJsonSchema(outputSchema)
+          )}`
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    if (system) {
+      messages.push({ role: "system", content: system });
+    }
+    for (const message of getRequestMessages(request)) {
+      messages.push({
+        role: message.role,
+        content: this.convertContentParts(message.content),
+      });
+    }
+    return messages;
+  }
+
+  protected convertContentParts(
+    parts: ContentPart[]
+  ): Array<Record<string, unknown>> {
+    return parts.map((part) => {
+      if (part.type === "text") {
+        return { type: "text", text: part.text || "" };
+      } else if (part.type === "image_url" && part.image_url) {
+        return { type: "image_url", image_url: part.image_url };
+      } else if (part.type === "image_base64" && part.image_base64) {
+        const { mediaType, data } = part.image_base64;
+        return {
+          type: "image_url",
+          image_url: { url: `data:${mediaType};base64,${data}` },
+        };
+      } else if (part.type === "document" && part.document?.data) {
+        return {
+          type: "file",
+          file: {
+            filename: "document.pdf",
+            file_data: `data:application/pdf;base64,${part.document.data}`,
+          },
+        };
+      } else if (part.type === "document") {
+        return unsupportedContentPart(
+          this.provider,
+          part,
+          "PDF documents by URL"
+        );
+      }
+      return unsupportedContentPart(this.provider, part);
     });
   }
 
-  private async createJsonlFile(
-    requests: BatchRequest<Array<ContentPart>>[],
+  protected checkContentParts(parts: ContentPart[]): void {
+    this.convertContentParts(parts.filter((part) => part.type !== "file"));
+  }
+
+  protected checkOutputSchema(
+    outputSchema: z.ZodSchema<unknown>
+  ): BatchProblem[] {
+    return findStrictSchemaProblems(
+      zodToJsonSchema(outputSchema) as JsonSchema,
+      "output"
+    );
+  }
+
+  protected buildResponseFormat(
     outputSchema: z.ZodSchema<any>
-  ): Promise<string> {
+  ): Record<string, unknown> {
+    return {
+      response_format: zodResponseFormat(outputSchema, "structured_output"),
+    };
+  }
+
+  private buildGenerationParams(
+    options: GenerationOptions
+  ): Record<string, unknown> {
+    // Unset options are left out when the request is serialized
+    return {
+      temperature: options.temperature,
+      top_p: options.topP,
+      stop: options.stop,
+      seed: options.seed,
+      max_completion_tokens: options.maxOutputTokens,
+    };
+  }
+
+  private buildToolParams(
+    request: AnyBatchRequest<Array<ContentPart>>
+  ): Record<string, unknown> {
+    const choice = request.toolChoice ?? "auto";
+    return {
+      tools: Object.entries(request.tools ?? {}).map(([name, tool]) => ({
+        type: "function",
+        function: {
+          name,
+          description: tool.description,
+          parameters: zodToJsonSchema(tool.parameters),
+        },
+      })),
+      tool_choice:
+        typeof choice === "object"
+          ? { type: "function", function: { name: choice.name } }
+          : choice,
+    };
+  }
+
+  private async createJsonlFile(lines: unknown[]): Promise<string> {
     const tempDir = os.tmpdir();
     const tempFile = path.join(tempDir, `batch-${Date.now()}.jsonl`);
 
-    const jsonlContent = requests
-      .map((request) => {
-        const messages = [];
-        if (request.systemPrompt) {
-          messages.push({ role: "system", content: request.systemPrompt });
-        }
-        messages.push({ role: "user", content: request.input });
-        return JSON.stringify({
-          custom_id: request.customId,
-          method: "POST",
-          url: "/v1/chat/completions",
-          body: {
-            model: this.modelId,
-            messages,
-            response_format: zodResponseFormat(
-              outputSchema,
-              "structured_output"
-            ),
-          },
-        });
-      })
-      .join("\n");
+    const jsonlContent = lines.map((line) => JSON.stringify(line)).join("\n");
 
     await fs.promises.writeFile(tempFile, jsonlContent);
     return tempFile;
   }
 
+  private buildChatLine(
+    request: AnyBatchRequest<Array<ContentPart>>,
+    output: BatchOutput
+  ): unknown {
+    const outputSchema = output.type === "object" ? output.schema : undefined;
+    return {
+      custom_id: request.customId,
+      method: "POST",
+      url: "/v1/chat/completions",
+      body: {
+        model: this.modelId,
+        messages: this.buildMessages(request, outputSchema),
+        ...this.buildGenerationParams(this.resolveGenerationOptions(request)),
+        // Free-form text batches are sent without a response format
+        ...(outputSchema ? this.buildResponseFormat(outputSchema) : {}),
+        ...(output.type === "tools" ? this.buildToolParams(request) : {}),
+      },
+    };
+  }
+
   async createBatch(
-    requests: BatchRequest<Array<ContentPart>>[],
+    requests: AnyBatchRequest<Array<ContentPart>>[],
     outputSchema: z.ZodSchema<unknown>
+  ): Promise<string> {
+    this.checkRequests(requests);
+    return this.submitBatch(requests, { type: "object", schema: outputSchema });
+  }
+
+  async createTextBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    this.checkRequests(requests);
+    return this.submitBatch(requests, { type: "text" });
+  }
+
+  async createToolBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[]
+  ): Promise<string> {
+    this.checkToolRequests(requests);
+    return this.submitBatch(requests, { type: "tools" });
+  }
+
+  async createEmbeddingBatch(
+    requests: EmbeddingRequest[],
+    { dimensions }: EmbeddingOptions = {}
+  ): Promise<string> {
+    return this.uploadBatch("/v1/embeddings", async () =>
+      requests.map((request) => ({
+        custom_id: request.customId,
+        method: "POST",
+        url: "/v1/embeddings",
+        body: {
+          model: this.modelId,
+          input: request.input,
+          encoding_format: "float",
+          ...(dimensions !== undefined ? { dimensions } : {}),
+        },
+      }))
+    );
+  }
+
+  async renderRequests(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<RenderedRequests> {
+    this.checkRequests(requests);
+    const lines = await this.buildChatLines(
+      requests,
+      outputSchema ? { type: "object", schema: outputSchema } : { type: "text" }
+    );
+    if (!outputSchema) {
+      return { requests: lines };
+    }
+
+    // JSON mode servers are sent the schema in the prompt instead
+    const { response_format } = this.buildResponseFormat(outputSchema) as {
+      response_format: { json_schema?: { schema?: unknown } };
+    };
+    return {
+      requests: lines,
+      outputSchema:
+        response_format.json_schema?.schema ?? zodToJsonSchema(outputSchema),
+    };
+  }
+
+  private submitBatch(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    output: BatchOutput
+  ): Promise<string> {
+    return this.uploadBatch("/v1/chat/completions", () =>
+      this.buildChatLines(requests, output)
+    );
+  }
+
+  private async buildChatLines(
+    requests: AnyBatchRequest<Array<ContentPart>>[],
+    output: BatchOutput
+  ): Promise<unknown[]> {
+    return (await resolveFileParts(requests)).map((request) =>
+      this.buildChatLine(request, output)
+    );
+  }
+
+  private async uploadBatch(
+    endpoint: "/v1/chat/completions" | "/v1/embeddings",
+    buildLines: () => Promise<unknown[]>
   ): Promise<string> {
     try {
       // Create JSONL file
-      const jsonlFile = await this.createJsonlFile(requests, outputSchema);
+      const jsonlFile = await this.createJsonlFile(await buildLines());
 
       // Upload file
       const fileStream = fs.createReadStream(jsonlFile);
@@ -79,7 +330,7 @@ export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
       // Create batch
       const batch = await this.client.batches.create({
         input_file_id: file.id,
-        endpoint: "/v1/chat/completions",
+        endpoint,
         completion_window: "24h",
       });
 
@@ -88,6 +339,10 @@ export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
 
       return batch.id;
     } catch (error) {
+      // Requests the provider can't accept are reported as is
+      if (error instanceof BatchError) {
+        throw error;
+      }
       throw new BatchError(
         error instanceof Error ? error.message : "Unknown error",
         "batch_creation_failed"
@@ -98,23 +353,7 @@ export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
   async getBatch(batchId: string): Promise<Batch> {
     try {
       const batch = await this.client.batches.retrieve(batchId);
-
-      return {
-        id: batch.id,
-        status: this.mapStatus(batch.status),
-        requestCounts: {
-          total: batch.request_counts?.total ?? 0,
-          completed: batch.request_counts?.completed ?? 0,
-          failed: batch.request_counts?.failed ?? 0,
-        },
-        createdAt: new Date(batch.created_at * 1000),
-        completedAt: batch.completed_at
-          ? new Date(batch.completed_at * 1000)
-          : undefined,
-        expiresAt: batch.expires_at
-          ? new Date(batch.expires_at * 1000)
-          : undefined,
-      };
+      return this.mapBatch(batch);
     } catch (error) {
       throw new BatchError(
         error instanceof Error ? error.message : "Unknown error",
@@ -124,13 +363,93 @@ export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
     }
   }
 
-  async getBatchResults<TOutput = unknown>(
+  listBatches(options: ListBatchesOptions = {}): AsyncIterable<Batch> {
+    return this.filterBatches(this.listAllBatches(options.after), options);
+  }
+
+  private async *listAllBatches(after?: string): AsyncGenerator<Batch> {
+    try {
+      // The page promise fetches further pages as it is iterated
+      for await (const batch of this.client.batches.list({
+        limit: LIST_PAGE_SIZE,
+        ...(after ? { after } : {}),
+      })) {
+        yield this.mapBatch(batch);
+      }
+    } catch (error) {
+      throw new BatchError(
+        error instanceof Error ? error.message : "Unknown error",
+        "batch_list_failed"
+      );
+    }
+  }
+
+  private mapBatch(batch: OpenAI.Batches.Batch): Batch {
+    return {
+      id: batch.id,
+      status: this.mapStatus(batch.status),
+      requestCounts: {
+        total: batch.request_counts?.total ?? 0,
+        completed: batch.request_counts?.completed ?? 0,
+        failed: batch.request_counts?.failed ?? 0,
+      },
+      createdAt: new Date(batch.created_at * 1000),
+      completedAt: batch.completed_at
+        ? new Date(batch.completed_at * 1000)
+        : undefined,
+      expiresAt: batch.expires_at
+        ? new Date(batch.expires_at * 1000)
+        : undefined,
+    };
+  }
+
+  streamBatchResults<TOutput = unknown>(
     batchId: string
-  ): Promise<BatchResponse<TOutput>[]> {
+  ): AsyncIterable<BatchResponse<TOutput>> {
+    return this.streamResults(batchId, (result) =>
+      mapResult(
+        result,
+        (message) => parseJsonOutput(message?.content as string) as TOutput
+      )
+    );
+  }
+
+  streamTextBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<string>> {
+    return this.streamResults(batchId, (result) =>
+      mapResult(result, (message) => message?.content as string)
+    );
+  }
+
+  streamToolBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<ToolCall[]>> {
+    return this.streamResults(batchId, (result) =>
+      mapResult(result, (message) =>
+        (message?.tool_calls ?? []).map((call) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseJsonOutput(call.function.arguments),
+        }))
+      )
+    );
+  }
+
+  streamEmbeddingBatchResults(
+    batchId: string
+  ): AsyncIterable<BatchResponse<number[]>> {
+    return this.streamResults(batchId, mapEmbeddingResult);
+  }
+
+  private async *streamResults<TOutput>(
+    batchId: string,
+    mapLine: (result: any) => BatchResponse<TOutput>
+  ): AsyncGenerator<BatchResponse<TOutput>> {
     try {
       const batch = await this.client.batches.retrieve(batchId);
 
-      if (!batch.output_file_id) {
+      if (!batch.output_file_id && !batch.error_file_id) {
         throw new BatchError(
           "Batch results not yet available",
           "results_not_ready",
@@ -138,35 +457,24 @@ export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
         );
       }
 
-      const fileContent = await this.client.files.content(batch.output_file_id);
-      const results = await fileContent.text();
-
-      return results
-        .split("\n")
-        .filter((line) => line.trim())
-        .map((line) => {
-          const result = JSON.parse(line);
-          return {
-            customId: result.custom_id,
-            output: JSON.parse(
-              result.response?.body?.choices?.[0]?.message?.content
-            ) as TOutput,
-            usage: result.response?.body?.usage
-              ? {
-                  promptTokens: result.response.body.usage.prompt_tokens,
-                  completionTokens:
-                    result.response.body.usage.completion_tokens,
-                  totalTokens: result.response.body.usage.total_tokens,
-                }
-              : undefined,
-            error: result.error
-              ? {
-                  code: result.error.code || "unknown_error",
-                  message: result.error.message || "Unknown error occurred",
-                }
-              : undefined,
-          };
-        });
+      // Requests that failed are only written to the error file, so both
+      // files are read for every submitted request to appear
+      for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+        if (!fileId) {
+          continue;
+        }
+        const fileContent = await this.client.files.content(fileId);
+
+        // Parse the file line by line rather than buffering it whole
+        for await (const line of readLines(
+          fileContent.body as unknown as AsyncIterable<Uint8Array>
+        )) {
+          if (!line.trim()) {
+            continue;
+          }
+          yield mapLine(JSON.parse(line));
+        }
+      }
     } catch (error) {
       throw new BatchError(
         error instanceof Error ? error.message : "Unknown error",
@@ -209,3 +517,140 @@ export class OpenAILanguageModel extends LanguageModel<Array<ContentPart>> {
     }
   }
 }
+
+/**
+ * Lists the parts of a JSON schema that strict structured outputs reject
+ */
+function findStrictSchemaProblems(
+  schema: JsonSchema,
+  path: string,
+  isRoot = true
+): BatchProblem[] {
+  const problem = (message: string): BatchProblem => ({
+    code: "unsupported_output_schema",
+    message: `${path}: ${message}`,
+  });
+  const problems: BatchProblem[] = [];
+
+  if (isRoot && schema.type !== "object") {
+    problems.push(problem("the output schema must be an object"));
+  }
+  if (schema.format && !STRICT_STRING_FORMATS.includes(schema.format)) {
+    problems.push(problem(`the "${schema.format}" format is not supported`));
+  }
+  if (typeof schema.additionalProperties === "object") {
+    problems.push(problem("objects with arbitrary keys are not supported"));
+  }
+
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    if (!schema.required?.includes(key)) {
+      problems.push({
+        code: "unsupported_output_schema",
+        message: `${path}.${key}: optional fields are not supported, use .nullable() instead`,
+      });
+    }
+    problems.push(
+      ...findStrictSchemaProblems(property, `${path}.${key}`, false)
+    );
+  }
+
+  const items = [schema.items ?? []].flat();
+  for (const item of items) {
+    problems.push(...findStrictSchemaProblems(item, `${path}[]`, false));
+  }
+  for (const variant of [
+    ...(schema.anyOf ?? []),
+    ...(schema.allOf ?? []),
+    ...(schema.oneOf ?? []),
+  ]) {
+    problems.push(...findStrictSchemaProblems(variant, path, false));
+  }
+  return problems;
+}
+
+function mapResult<TOutput>(
+  result: any,
+  parseMessage: (message?: ChatCompletionMessage) => TOutput
+): BatchResponse<TOutput> {
+  const body = result.response?.body;
+  const choice = body?.choices?.[0];
+  const error = mapError(result);
+  return {
+    customId: result.custom_id,
+    output: error ? undefined : parseMessage(choice?.message),
+    finishReason: choice?.finish_reason,
+    model: body?.model,
+    usage: body?.usage ? mapUsage(body.usage) : undefined,
+    error,
+  };
+}
+
+function mapEmbeddingResult(result: any): BatchResponse<number[]> {
+  const body = result.response?.body;
+  const error = mapError(result);
+  return {
+    customId: result.custom_id,
+    output: error ? undefined : body?.data?.[0]?.embedding,
+    model: body?.model,
+    // Embeddings have no output tokens
+    usage: body?.usage
+      ? {
+          promptTokens: body.usage.prompt_tokens,
+          completionTokens: 0,
+          totalTokens: body.usage.total_tokens,
+        }
+      : undefined,
+    error,
+  };
+}
+
+function mapError(result: any): BatchResponse<unknown>["error"] {
+  // Requests that never ran, such as expired ones, carry a top-level error
+  if (result.error) {
+    return {
+      code: result.error.code || "unknown_error",
+      message: result.error.message || "Unknown error occurred",
+    };
+  }
+
+  const status = result.response?.status_code;
+  if (status === undefined || status === 200) {
+    return undefined;
+  }
+  const error = result.response.body?.error;
+  return {
+    code: error?.code || error?.type || `http_${status}`,
+    message: error?.message || `Request failed with status ${status}`,
+  };
+}
+
+function mapUsage(usage: CompletionUsage): BatchResponse<unknown>["usage"] {
+  // Repeated prompt prefixes are cached automatically and reported here
+  const cacheReadTokens = usage.prompt_tokens_details?.cached_tokens;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    ...(cacheReadTokens ? { cacheReadTokens } : {}),
+  };
+}
+
+async function* readLines(
+  chunks: AsyncIterable<Uint8Array | string>
+): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for await (const chunk of chunks) {
+    buffered +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    yield* lines;
+  }
+  buffered += decoder.decode();
+  if (buffered) {
+    yield buffered;
+  }
+}
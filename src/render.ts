@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { AnyBatchRequest, LanguageModel, unsupportedDryRun } from "./types";
+
+export interface RenderBatchParams<Input> {
+  model: LanguageModel<Input>;
+  requests: AnyBatchRequest<Input>[];
+  /** Renders a structured output batch, a free-form text batch without it */
+  outputSchema?: z.ZodSchema<unknown>;
+}
+
+export interface RenderedBatchStats {
+  requestCount: number;
+  /** Size of all rendered requests in bytes, as serialized JSON */
+  totalBytes: number;
+  largestRequestBytes: number;
+  /** Whether the batch fits the model's batch limits without sharding */
+  withinLimits: boolean;
+}
+
+export interface RenderedBatch {
+  provider: string;
+  modelId: string;
+  /** The provider-native requests, exactly as they would be sent */
+  requests: unknown[];
+  /** The output schema after conversion to the provider's JSON schema */
+  outputSchema?: unknown;
+  stats: RenderedBatchStats;
+}
+
+/**
+ * Renders a batch without submitting it: the provider-native request
+ * payloads, the converted output schema and their sizes. File parts are read
+ * like on submission, but nothing is sent to the provider.
+ * @param params Object containing the model, requests and output schema
+ * @returns Promise resolving to the rendered batch
+ */
+export async function renderBatch<Input>({
+  model,
+  requests,
+  outputSchema,
+}: RenderBatchParams<Input>): Promise<RenderedBatch> {
+  if (!model.renderRequests) {
+    throw unsupportedDryRun(model.provider);
+  }
+  const rendered = await model.renderRequests(requests, outputSchema);
+
+  const sizes = rendered.requests.map((request) =>
+    Buffer.byteLength(JSON.stringify(request))
+  );
+  const totalBytes = sizes.reduce((total, size) => total + size, 0);
+
+  return {
+    provider: model.provider,
+    modelId: model.modelId,
+    requests: rendered.requests,
+    ...(rendered.outputSchema !== undefined
+      ? { outputSchema: rendered.outputSchema }
+      : {}),
+    stats: {
+      requestCount: rendered.requests.length,
+      totalBytes,
+      largestRequestBytes: sizes.reduce(
+        (largest, size) => Math.max(largest, size),
+        0
+      ),
+      withinLimits:
+        rendered.requests.length <= model.batchLimits.maxRequests &&
+        totalBytes <= model.batchLimits.maxBytes,
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { z } from "zod";
+import {
+  Batch,
+  BatchError,
+  AnyBatchRequest,
+  BatchResponse,
+  LanguageModel,
+} from "./types";
+import { getResultsOrGroup } from "./sharding";
+import { validateResults } from "./validation";
+import { waitForBatch, WaitOptions } from "./wait";
+
+export interface RetryFailedParams<Input, TOutput> extends WaitOptions {
+  model: LanguageModel<Input>;
+  /** The original batch, which is waited on if it hasn't ended yet */
+  batchId: string;
+  /** The requests the original batch was created with */
+  requests: AnyBatchRequest<Input>[];
+  outputSchema: z.ZodSchema<TOutput>;
+  /** Maximum attempts per request, including the original batch (default 3) */
+  maxAttempts?: number;
+}
+
+export interface RetryFailedResponse<TOutput> {
+  /** One result per request, in request order */
+  results: BatchResponse<TOutput>[];
+  /** Number of batches each request was submitted in */
+  attempts: Record<string, number>;
+  /** The original batch ID followed by every retry batch ID */
+  batchIds: string[];
+}
+
+/**
+ * Resubmits the requests of a batch that errored, expired or are missing from
+ * its results as follow-up batches, until they succeed or run out of attempts
+ * @param params Object containing the model, batch ID, original requests and schema
+ * @returns Promise resolving to the merged results and attempt counts
+ */
+export async function retryFailed<TInput, TOutput>({
+  model,
+  batchId,
+  requests,
+  outputSchema,
+  maxAttempts = 3,
+  ...waitOptions
+}: RetryFailedParams<TInput, TOutput>): Promise<RetryFailedResponse<TOutput>> {
+  const attempts: Record<string, number> = Object.fromEntries(
+    requests.map((request) => [request.customId, 1])
+  );
+  const merged = new Map<string, BatchResponse<TOutput>>();
+  const batchIds = [batchId];
+  let currentBatchId = batchId;
+  let pending = requests;
+
+  for (;;) {
+    const batch = await waitForBatch(model, currentBatchId, waitOptions, {
+      untilEnded: true,
+    });
+    const results = validateResults(
+      await readAvailableResults(model, currentBatchId, batch),
+      outputSchema
+    );
+
+    for (const result of results) {
+      if (attempts[result.customId] !== undefined) {
+        merged.set(result.customId, result);
+      }
+    }
+
+    const retryable = pending.filter((request) => {
+      const result = merged.get(request.customId);
+      return (
+        (!result || result.error) && attempts[request.customId] < maxAttempts
+      );
+    });
+    if (retryable.length === 0) {
+      break;
+    }
+
+    currentBatchId = await model.createBatch(retryable, outputSchema);
+    batchIds.push(currentBatchId);
+    retryable.forEach((request) => attempts[request.customId]++);
+    pending = retryable;
+  }
+
+  return {
+    results: requests.map(
+      (request) =>
+        merged.get(request.customId) ?? {
+          customId: request.customId,
+          error: {
+            code: "missing_result",
+            message: "No result was returned for this request",
+          },
+        }
+    ),
+    attempts,
+    batchIds,
+  };
+}
+
+async function readAvailableResults<TInput>(
+  model: LanguageModel<TInput>,
+  batchId: string,
+  batch: Batch
+): Promise<BatchResponse<unknown>[]> {
+  try {
+    return await getResultsOrGroup(batchId, (id) => model.getBatchResults(id));
+  } catch (error) {
+    // Failed and cancelled batches may have no results at all, in which case
+    // every request is treated as missing
+    if (batch.status !== "completed" && error instanceof BatchError) {
+      return [];
+    }
+    throw error;
+  }
+}
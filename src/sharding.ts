@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  Batch,
+  BatchError,
+  BatchLimits,
+  AnyBatchRequest,
+  BatchRequestCounts,
+  BatchResponse,
+  LanguageModel,
+} from "./types";
+
+const GROUP_PREFIX = "batch_group_";
+
+// Allowance for the per-line envelope (custom_id, method, url, model, ...)
+const REQUEST_OVERHEAD_BYTES = 512;
+
+/**
+ * Sizes each request as the provider would receive it, with file parts read
+ * and encoded. Undefined for models that can't render their requests.
+ */
+export async function measureRequests<Input>(
+  model: LanguageModel<Input>,
+  requests: AnyBatchRequest<Input>[],
+  outputSchema?: z.ZodSchema<unknown>
+): Promise<number[] | undefined> {
+  if (!model.renderRequests) {
+    return undefined;
+  }
+  const rendered = await model.renderRequests(requests, outputSchema);
+  return rendered.requests.map((request) =>
+    Buffer.byteLength(JSON.stringify(request))
+  );
+}
+
+/**
+ * Splits requests into shards that fit within the given limits, keeping the
+ * original order. Requests are sized by `sizes` when given, from
+ * measureRequests, and estimated from their JSON otherwise.
+ */
+export function shardRequests<Input>(
+  requests: AnyBatchRequest<Input>[],
+  limits: BatchLimits,
+  outputSchema?: z.ZodSchema<unknown>,
+  sizes?: number[]
+): AnyBatchRequest<Input>[][] {
+  const schemaBytes = outputSchema
+    ? Buffer.byteLength(JSON.stringify(zodToJsonSchema(outputSchema)))
+    : 0;
+
+  const shards: AnyBatchRequest<Input>[][] = [];
+  let current: AnyBatchRequest<Input>[] = [];
+  let currentBytes = 0;
+
+  for (const [index, request] of requests.entries()) {
+    const bytes =
+      sizes?.[index] ??
+      Buffer.byteLength(JSON.stringify(request)) +
+        schemaBytes +
+        REQUEST_OVERHEAD_BYTES;
+
+    if (bytes > limits.maxBytes) {
+      throw new BatchError(
+        `Request ${request.customId} is larger than the ${limits.maxBytes} byte batch limit`,
+        "request_too_large"
+      );
+    }
+
+    if (
+      current.length >= limits.maxRequests ||
+      currentBytes + bytes > limits.maxBytes
+    ) {
+      shards.push(current);
+      current = [];
+      currentBytes = 0;
+    }
+
+    current.push(request);
+    currentBytes += bytes;
+  }
+
+  if (current.length > 0) {
+    shards.push(current);
+  }
+  return shards;
+}
+
+/**
+ * Encodes the provider batch IDs of a sharded batch into a single group ID
+ */
+export function encodeBatchGroupId(batchIds: string[]): string {
+  return (
+    GROUP_PREFIX + Buffer.from(JSON.stringify(batchIds)).toString("base64url")
+  );
+}
+
+/**
+ * Returns the provider batch IDs behind a batch ID, which is a single ID
+ * unless it is a group ID created by sharding
+ */
+export function decodeBatchGroupId(batchId: string): string[] {
+  if (!batchId.startsWith(GROUP_PREFIX)) {
+    return [batchId];
+  }
+  try {
+    const ids = JSON.parse(
+      Buffer.from(batchId.slice(GROUP_PREFIX.length), "base64url").toString()
+    );
+    if (Array.isArray(ids) && ids.every((id) => typeof id === "string")) {
+      return ids;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BatchError("Invalid batch group ID", "invalid_batch_id", batchId);
+}
+
+/**
+ * Gets a batch, aggregating the status and request counts of every shard
+ * when given a batch group ID
+ */
+export async function getBatchOrGroup<Input>(
+  model: LanguageModel<Input>,
+  batchId: string
+): Promise<Batch> {
+  const batchIds = decodeBatchGroupId(batchId);
+  if (batchIds.length === 1 && batchIds[0] === batchId) {
+    return model.getBatch(batchId);
+  }
+
+  const shards = await Promise.all(batchIds.map((id) => model.getBatch(id)));
+  return aggregateBatches(batchId, shards);
+}
+
+/**
+ * Fetches results for a batch or batch group, concatenating shard results in
+ * submission order
+ */
+export async function getResultsOrGroup<TOutput>(
+  batchId: string,
+  fetchResults: (id: string) => Promise<BatchResponse<TOutput>[]>
+): Promise<BatchResponse<TOutput>[]> {
+  const shardResults = await Promise.all(
+    decodeBatchGroupId(batchId).map(fetchResults)
+  );
+  return shardResults.flat();
+}
+
+function aggregateBatches(batchId: string, shards: Batch[]): Batch {
+  const sum = (key: keyof BatchRequestCounts): number | undefined =>
+    shards.some((shard) => shard.requestCounts[key] !== undefined)
+      ? shards.reduce(
+          (total, shard) => total + (shard.requestCounts[key] ?? 0),
+          0
+        )
+      : undefined;
+
+  const requestCounts: BatchRequestCounts = {
+    total: sum("total") ?? 0,
+    completed: sum("completed") ?? 0,
+    failed: sum("failed") ?? 0,
+  };
+  for (const key of ["processing", "cancelled", "expired"] as const) {
+    const value = sum(key);
+    if (value !== undefined) {
+      requestCounts[key] = value;
+    }
+  }
+
+  const times = (dates: (Date | undefined)[]): number[] =>
+    dates.filter((date): date is Date => !!date).map((date) => date.getTime());
+  const completedAt = times(shards.map((shard) => shard.completedAt));
+  const expiresAt = times(shards.map((shard) => shard.expiresAt));
+
+  return {
+    id: batchId,
+    status: aggregateStatus(shards.map((shard) => shard.status)),
+    requestCounts,
+    createdAt: new Date(
+      Math.min(...times(shards.map((shard) => shard.createdAt)))
+    ),
+    completedAt:
+      completedAt.length === shards.length
+        ? new Date(Math.max(...completedAt))
+        : undefined,
+    expiresAt: expiresAt.length ? new Date(Math.min(...expiresAt)) : undefined,
+  };
+}
+
+function aggregateStatus(statuses: Batch["status"][]): Batch["status"] {
+  // A group is only as far along as its least advanced shard, and is only
+  // completed when every shard completed
+  for (const status of [
+    "validating",
+    "in_progress",
+    "cancelling",
+    "failed",
+    "expired",
+    "cancelled",
+  ] as const) {
+    if (statuses.includes(status)) {
+      return status;
+    }
+  }
+  return "completed";
+}
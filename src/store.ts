@@ -0,0 +1,239 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { z } from "zod";
+import {
+  Batch,
+  BatchError,
+  BatchResponse,
+  BatchStatus,
+  LanguageModel,
+} from "./types";
+import { getResultsOrGroup } from "./sharding";
+import { validateResults } from "./validation";
+import { waitForBatch, WaitOptions } from "./wait";
+
+export interface BatchRecord {
+  /** Batch ID as returned by createObjectBatch, possibly a batch group ID */
+  batchId: string;
+  provider: LanguageModel<unknown>["provider"];
+  modelId: string;
+  /** Name of the output schema, used to look it up again when resuming */
+  schemaName?: string;
+  requestIds: string[];
+  status: BatchStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Durable storage for submitted batches, so they can be picked up again
+ * after a process restart
+ */
+export interface BatchStore {
+  save(record: BatchRecord): Promise<void>;
+  get(batchId: string): Promise<BatchRecord | undefined>;
+  list(): Promise<BatchRecord[]>;
+  delete(batchId: string): Promise<void>;
+}
+
+type StoredRecord = Omit<BatchRecord, "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Batch store that keeps every record in a single JSON file. Writes go
+ * through a temporary file and a rename so a crash never leaves it half
+ * written.
+ */
+export class JsonFileBatchStore implements BatchStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async save(record: BatchRecord): Promise<void> {
+    await this.update((records) => {
+      records[record.batchId] = {
+        ...record,
+        createdAt: record.createdAt.toISOString(),
+        updatedAt: record.updatedAt.toISOString(),
+      };
+    });
+  }
+
+  async get(batchId: string): Promise<BatchRecord | undefined> {
+    return (await this.list()).find((record) => record.batchId === batchId);
+  }
+
+  async list(): Promise<BatchRecord[]> {
+    await this.queue;
+    const records = await this.read();
+    return Object.values(records).map((record) => ({
+      ...record,
+      createdAt: new Date(record.createdAt),
+      updatedAt: new Date(record.updatedAt),
+    }));
+  }
+
+  async delete(batchId: string): Promise<void> {
+    await this.update((records) => {
+      delete records[batchId];
+    });
+  }
+
+  private update(
+    change: (records: Record<string, StoredRecord>) => void
+  ): Promise<void> {
+    // Serialize writes so concurrent saves don't overwrite each other
+    const next = this.queue.then(async () => {
+      const records = await this.read();
+      change(records);
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(records, null, 2));
+      await fs.rename(tempPath, this.filePath);
+    });
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<Record<string, StoredRecord>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw new BatchError(
+        `Failed to read batch store ${this.filePath}: ${
+          (error as Error).message
+        }`,
+        "store_read_failed"
+      );
+    }
+  }
+}
+
+export interface ResumeAllParams extends WaitOptions {
+  store: BatchStore;
+  /** Models to poll with, matched to records by provider and model ID */
+  models: LanguageModel<any>[];
+  /** Output schemas by schema name, used to validate resumed results */
+  schemas?: Record<string, z.ZodSchema<unknown>>;
+  /** Called as soon as each resumed batch ends */
+  onBatchEnded?: (resumed: ResumedBatch) => void | Promise<void>;
+}
+
+export interface ResumedBatch {
+  record: BatchRecord;
+  /** The ended batch, unset when polling it failed */
+  batch?: Batch;
+  /** Results of completed batches, validated when the schema is known */
+  results?: BatchResponse<unknown>[];
+  /** Why the batch could not be polled or its results fetched */
+  error?: BatchError;
+}
+
+const ENDED_STATUSES: BatchStatus[] = [
+  "completed",
+  "failed",
+  "expired",
+  "cancelled",
+];
+
+/**
+ * Reloads every unfinished batch from the store and polls them until they
+ * end, keeping the stored status up to date. A batch that can't be polled
+ * is returned with its error rather than failing the others.
+ * @param params Object containing the store, models and polling options
+ * @returns Promise resolving to each resumed batch with its results or error
+ */
+export async function resumeAll({
+  store,
+  models,
+  schemas = {},
+  onBatchEnded,
+  onProgress,
+  ...waitOptions
+}: ResumeAllParams): Promise<ResumedBatch[]> {
+  const unfinished = (await store.list()).filter(
+    (record) => !ENDED_STATUSES.includes(record.status)
+  );
+
+  // Resolve every model up front so a missing one fails before any polling
+  const resumable = unfinished.map((record) => {
+    const model = models.find(
+      (candidate) =>
+        candidate.provider === record.provider &&
+        candidate.modelId === record.modelId
+    );
+    if (!model) {
+      throw new BatchError(
+        `No model given for ${record.provider} ${record.modelId}`,
+        "model_not_found",
+        record.batchId
+      );
+    }
+    return { record, model };
+  });
+
+  return Promise.all(
+    resumable.map(async ({ record, model }) => {
+      let current = record;
+      const saveStatus = async (status: BatchStatus): Promise<void> => {
+        if (status !== current.status) {
+          current = { ...current, status, updatedAt: new Date() };
+          await store.save(current);
+        }
+      };
+
+      let statusSaved = Promise.resolve();
+      try {
+        const batch = await waitForBatch(
+          model,
+          record.batchId,
+          {
+            ...waitOptions,
+            onProgress: (progress) => {
+              statusSaved = statusSaved.then(() =>
+                saveStatus(progress.batch.status)
+              );
+              onProgress?.(progress);
+            },
+          },
+          { untilEnded: true }
+        );
+        await statusSaved;
+        await saveStatus(batch.status);
+
+        const resumed: ResumedBatch = { record: current, batch };
+        if (batch.status === "completed") {
+          const results = await getResultsOrGroup(record.batchId, (id) =>
+            model.getBatchResults(id)
+          );
+          const schema = record.schemaName
+            ? schemas[record.schemaName]
+            : undefined;
+          resumed.results = schema ? validateResults(results, schema) : results;
+        }
+
+        await onBatchEnded?.(resumed);
+        return resumed;
+      } catch (error) {
+        // Saves still in flight settle first, the polling error is reported
+        await statusSaved.catch(() => undefined);
+        return {
+          record: current,
+          error:
+            error instanceof BatchError
+              ? error
+              : new BatchError(
+                  error instanceof Error ? error.message : "Unknown error",
+                  "batch_retrieval_failed",
+                  record.batchId
+                ),
+        };
+      }
+    })
+  );
+}
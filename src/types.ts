@@ -2,6 +2,17 @@ import { z } from "zod";
 import { Model as AnthropicModel } from "@anthropic-ai/sdk/resources/messages/messages";
 import { ChatModel as OpenAIModel } from "openai/resources/chat/chat";
 
+export type GeminiModel =
+  | "gemini-2.5-pro"
+  | "gemini-2.5-flash"
+  | "gemini-2.5-flash-lite"
+  | "gemini-2.0-flash"
+  | "gemini-2.0-flash-lite"
+  | (string & {});
+
+// Tool names both OpenAI and Anthropic accept
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
 // Common types across providers
 export type BatchStatus =
   | "validating"
@@ -22,23 +33,130 @@ export interface BatchRequestCounts {
 }
 
 // Base interfaces for batch operations
-export interface BatchRequest<T> {
+interface BatchRequestBase {
   customId: string;
-  input: T;
   systemPrompt?: string;
+  /** Mark the system prompt as a cacheable prefix, see ContentPart.cache */
+  cacheSystemPrompt?: boolean;
+  /** Overrides the model's generation options for this request */
+  generationOptions?: GenerationOptions;
+  /** Tools the model may call, by name, in tool call batches */
+  tools?: Record<string, ToolDefinition>;
+  /** Whether and which tools the model must call (default "auto") */
+  toolChoice?: ToolChoice;
+}
+
+export interface ToolDefinition {
+  description?: string;
+  /** Schema of the tool's arguments, which must describe an object */
+  parameters: z.ZodSchema<unknown>;
+}
+
+/**
+ * Lets the model decide ("auto"), forces a call to any tool ("required") or
+ * to the named tool, or disables tool calls ("none")
+ */
+export type ToolChoice = "auto" | "required" | "none" | { name: string };
+
+/**
+ * What a batch asks the model to produce: schema-conforming objects, free
+ * text or tool calls
+ */
+export type BatchOutput =
+  | { type: "object"; schema: z.ZodSchema<unknown> }
+  | { type: "text" }
+  | { type: "tools" };
+
+export interface ToolCall<TArguments = unknown> {
+  /** Call ID assigned by the provider */
+  id: string;
+  name: string;
+  arguments: TArguments;
+}
+
+export interface BatchRequest<T> extends BatchRequestBase {
+  input: T;
+  messages?: never;
+}
+
+/**
+ * A request with a role-tagged conversation in place of a single user input
+ */
+export interface ConversationBatchRequest<T> extends BatchRequestBase {
+  /**
+   * Conversation turns, starting with a user turn. A trailing assistant turn
+   * prefills the response where the provider supports it.
+   */
+  messages: BatchMessage<T>[];
+  input?: never;
+}
+
+/**
+ * Any request a batch accepts: a single user `input` or a conversation
+ */
+export type AnyBatchRequest<T> = BatchRequest<T> | ConversationBatchRequest<T>;
+
+export interface EmbeddingRequest {
+  customId: string;
+  /** Text to embed */
+  input: string;
+}
+
+export interface EmbeddingOptions {
+  /** Length of the returned vectors, for models that can shorten them */
+  dimensions?: number;
+}
+
+export interface BatchMessage<T> {
+  role: "user" | "assistant";
+  content: T;
+}
+
+/**
+ * Returns the conversation turns of a request, treating `input` as a single
+ * user turn
+ */
+export function getRequestMessages<T>(
+  request: AnyBatchRequest<T>
+): BatchMessage<T>[] {
+  return request.messages ?? [{ role: "user", content: request.input as T }];
+}
+
+export interface GenerationOptions {
+  temperature?: number;
+  topP?: number;
+  /** Sequences that stop generation when produced */
+  stop?: string[];
+  /** Seed for best-effort deterministic sampling */
+  seed?: number;
+  maxOutputTokens?: number;
 }
 
 export interface BatchResponse<T> {
   customId: string;
   output?: T;
+  /** The unvalidated output, when requested with `keepRaw` */
+  raw?: unknown;
+  finishReason?: string;
+  /** The model that produced the output, as reported by the provider */
+  model?: string;
+  /** The provider that produced the result, set by fallbackModel */
+  provider?: string;
   error?: {
     code: string;
     message: string;
+    /** Zod issues for `schema_validation_failed` errors */
+    issues?: z.ZodIssue[];
   };
   usage?: {
+    /** Every input token, including cache reads and writes */
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Input tokens read from the prompt cache */
+    cacheReadTokens?: number;
+    /** Input tokens written to the prompt cache */
+    cacheWriteTokens?: number;
   };
 }
 
@@ -51,34 +169,411 @@ export interface Batch {
   expiresAt?: Date;
 }
 
+/**
+ * A problem found in a batch before it is submitted
+ */
+export interface BatchProblem {
+  code: string;
+  message: string;
+  /** The request the problem was found in, unset for batch-wide problems */
+  customId?: string;
+}
+
+export interface RenderedRequests {
+  /** Each request as the provider would receive it */
+  requests: unknown[];
+  /** The output schema as converted for the provider */
+  outputSchema?: unknown;
+}
+
+export interface ListBatchesOptions {
+  /** Maximum number of batches to return (default all) */
+  limit?: number;
+  /** Only list batches created before this batch ID, for paging */
+  after?: string;
+  /** Only list batches with one of these statuses */
+  status?: BatchStatus | BatchStatus[];
+  /** Only list batches created after this date */
+  createdAfter?: Date;
+}
+
+export interface BatchLimits {
+  /** Maximum number of requests in a single provider batch */
+  maxRequests: number;
+  /** Maximum size in bytes of a single provider batch */
+  maxBytes: number;
+}
+
 // Provider-specific interfaces
 export interface LanguageModelConfig {
   apiKey?: string;
+  /** Defaults for every request, see BatchRequest.generationOptions */
+  generationOptions?: GenerationOptions;
+}
+
+export interface OpenAICompatibleFeatures {
+  /** Whether the server accepts `json_schema` response formats (default true) */
+  structuredOutputs?: boolean;
+}
+
+export interface OpenAICompatibleConfig extends LanguageModelConfig {
+  baseURL: string;
+  modelId: string;
+  name: string;
+  features?: OpenAICompatibleFeatures;
+}
+
+export interface MockResponderContext {
+  batchId: string;
+  /** The output schema for object batches, undefined for text batches */
+  outputSchema?: z.ZodSchema<unknown>;
+  /** Whether the batch is a tool call batch, whose outputs are ToolCall[] */
+  toolCalls?: boolean;
+}
+
+export interface MockModelConfig {
+  modelId?: string;
+  /**
+   * Produces the output for each request. Throwing marks the item as errored,
+   * using the error code when a BatchError is thrown. Declared as a method so
+   * that responders written for `BatchRequest` inputs still type-check.
+   */
+  responder(
+    request: AnyBatchRequest<Array<ContentPart>>,
+    context: MockResponderContext
+  ): unknown | Promise<unknown>;
+  /** Time in ms a batch spends in the "validating" status (default 0) */
+  validatingDelay?: number;
+  /** Time in ms a batch spends in the "in_progress" status (default 0) */
+  processingDelay?: number;
+  /** Time in ms a cancelled batch spends in the "cancelling" status (default 0) */
+  cancellingDelay?: number;
+  /** Terminal status once processing is over (default "completed") */
+  outcome?: "completed" | "failed" | "expired";
+  /** Reject batch creation with a batch_creation_failed error */
+  rejectCreate?: boolean;
 }
 
 export abstract class LanguageModel<Input> {
   constructor(
-    public readonly modelId: OpenAIModel | AnthropicModel,
+    public readonly modelId: OpenAIModel | AnthropicModel | GeminiModel,
     public readonly config?: LanguageModelConfig
   ) {}
 
-  abstract readonly provider: "openai" | "anthropic";
+  abstract readonly provider:
+    | "openai"
+    | "anthropic"
+    | "google"
+    | "mock"
+    | "fallback"
+    // The name given to an OpenAI-compatible server
+    | (string & {});
+
+  // Per-batch limits used when sharding large request sets
+  readonly batchLimits: BatchLimits = {
+    maxRequests: Infinity,
+    maxBytes: Infinity,
+  };
+
+  // Generation options the provider can't honor, rejected before submission
+  protected readonly unsupportedGenerationOptions: (keyof GenerationOptions)[] =
+    [];
+
+  // Whether a trailing assistant turn is continued by the model
+  protected readonly supportsAssistantPrefill: boolean = false;
+
+  // Format the provider requires of custom IDs, if any
+  protected readonly customIdRule?: { pattern: RegExp; description: string };
+
+  /**
+   * Runs the provider's checks on every request and the output schema
+   * without submitting anything, collecting each problem rather than
+   * stopping at the first
+   */
+  validateRequests(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): BatchProblem[] {
+    const problems: BatchProblem[] = [];
+    const collect = (customId: string, check: () => void): void => {
+      try {
+        check();
+      } catch (error) {
+        if (!(error instanceof BatchError)) {
+          throw error;
+        }
+        problems.push({ code: error.code, message: error.message, customId });
+      }
+    };
+
+    for (const request of requests) {
+      const rule = this.customIdRule;
+      if (rule && !rule.pattern.test(request.customId)) {
+        problems.push({
+          code: "invalid_custom_id",
+          message: `The ${this.provider} provider requires custom IDs of ${rule.description} (request ${request.customId})`,
+          customId: request.customId,
+        });
+      }
+      collect(request.customId, () => this.checkRequests([request]));
+      for (const message of getRequestMessages(request)) {
+        collect(request.customId, () =>
+          this.checkContentParts?.(message.content)
+        );
+      }
+    }
+
+    return outputSchema
+      ? [...problems, ...(this.checkOutputSchema?.(outputSchema) ?? [])]
+      : problems;
+  }
+
+  /**
+   * Throws when the provider can't send one of the parts. File parts are
+   * only read on submission, so providers leave them out. Inputs are passed
+   * through as is by providers without it.
+   */
+  protected checkContentParts?(parts: Input): void;
+
+  /**
+   * Lists the parts of the output schema the provider would reject, for
+   * providers that don't accept every schema
+   */
+  protected checkOutputSchema?(
+    outputSchema: z.ZodSchema<unknown>
+  ): BatchProblem[];
+
+  /**
+   * Merges the model's generation options with a request's overrides
+   */
+  protected resolveGenerationOptions(
+    request: AnyBatchRequest<Input>
+  ): GenerationOptions {
+    return {
+      ...this.config?.generationOptions,
+      ...request.generationOptions,
+    };
+  }
+
+  /**
+   * Throws when any request is malformed or uses a feature the provider
+   * doesn't support, so nothing is submitted
+   */
+  protected checkRequests(requests: AnyBatchRequest<Input>[]): void {
+    for (const request of requests) {
+      this.checkMessages(request);
+      this.checkTools(request);
+
+      const options = this.resolveGenerationOptions(request);
+      const unsupported = this.unsupportedGenerationOptions.filter(
+        (option) => options[option] !== undefined
+      );
+      if (unsupported.length > 0) {
+        throw new BatchError(
+          `The ${
+            this.provider
+          } provider does not support the ${unsupported.join(
+            ", "
+          )} generation option (request ${request.customId})`,
+          "unsupported_generation_option"
+        );
+      }
+    }
+  }
+
+  /**
+   * Applies the status, creation date and limit options of listBatches to
+   * batches listed newest first
+   */
+  protected async *filterBatches(
+    batches: AsyncIterable<Batch>,
+    { limit = Infinity, status, createdAfter }: ListBatchesOptions
+  ): AsyncGenerator<Batch> {
+    const statuses = status === undefined ? undefined : [status].flat();
+    let count = 0;
+    if (count >= limit) {
+      return;
+    }
+
+    for await (const batch of batches) {
+      // Every later batch is older still
+      if (createdAfter && batch.createdAt <= createdAfter) {
+        return;
+      }
+      if (statuses && !statuses.includes(batch.status)) {
+        continue;
+      }
+      yield batch;
+      if (++count >= limit) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Throws unless every request of a tool call batch declares a tool to call
+   */
+  protected checkToolRequests(requests: AnyBatchRequest<Input>[]): void {
+    this.checkRequests(requests);
+    for (const request of requests) {
+      if (Object.keys(request.tools ?? {}).length === 0) {
+        throw new BatchError(
+          `Request ${request.customId} declares no tools`,
+          "invalid_tools"
+        );
+      }
+    }
+  }
+
+  private checkTools(request: AnyBatchRequest<Input>): void {
+    const names = Object.keys(request.tools ?? {});
+    const invalid = names.find((name) => !TOOL_NAME_PATTERN.test(name));
+    if (invalid !== undefined) {
+      throw new BatchError(
+        `Tool names must be 1 to 64 letters, digits, underscores or hyphens, got "${invalid}" (request ${request.customId})`,
+        "invalid_tools"
+      );
+    }
+    const choice = request.toolChoice;
+    if (typeof choice === "object" && !names.includes(choice.name)) {
+      throw new BatchError(
+        `Tool choice ${choice.name} is not one of the request's tools (request ${request.customId})`,
+        "invalid_tools"
+      );
+    }
+  }
+
+  private checkMessages(request: AnyBatchRequest<Input>): void {
+    if (!request.messages) {
+      return;
+    }
+    if (request.messages[0]?.role !== "user") {
+      throw new BatchError(
+        `Messages must start with a user turn (request ${request.customId})`,
+        "invalid_messages"
+      );
+    }
+    const last = request.messages[request.messages.length - 1];
+    if (last.role === "assistant" && !this.supportsAssistantPrefill) {
+      throw new BatchError(
+        `The ${this.provider} provider does not support assistant prefill (request ${request.customId})`,
+        "unsupported_assistant_prefill"
+      );
+    }
+  }
 
   // Core methods that each provider must implement
   abstract createBatch(
-    requests: BatchRequest<Input>[],
+    requests: AnyBatchRequest<Input>[],
     outputSchema: z.ZodSchema<unknown>
   ): Promise<string>;
 
+  /**
+   * Creates a batch of free-form text requests, without an output schema.
+   * Only supported by some providers.
+   */
+  createTextBatch?(requests: AnyBatchRequest<Input>[]): Promise<string>;
+
   abstract getBatch(batchId: string): Promise<Batch>;
 
-  abstract getBatchResults<TOutput = unknown>(
+  /**
+   * Lists the provider's batches, newest first, fetching further pages as
+   * the iterator is consumed
+   */
+  abstract listBatches(options?: ListBatchesOptions): AsyncIterable<Batch>;
+
+  abstract streamBatchResults<TOutput = unknown>(
     batchId: string
-  ): Promise<BatchResponse<TOutput>[]>;
+  ): AsyncIterable<BatchResponse<TOutput>>;
+
+  /**
+   * Streams the text of each request of a completed text batch
+   */
+  streamTextBatchResults?(
+    batchId: string
+  ): AsyncIterable<BatchResponse<string>>;
+
+  async getBatchResults<TOutput = unknown>(
+    batchId: string
+  ): Promise<BatchResponse<TOutput>[]> {
+    return collect(this.streamBatchResults<TOutput>(batchId));
+  }
+
+  async getTextBatchResults(batchId: string): Promise<BatchResponse<string>[]> {
+    if (!this.streamTextBatchResults) {
+      throw unsupportedTextBatches(this.provider, batchId);
+    }
+    return collect(this.streamTextBatchResults(batchId));
+  }
+
+  /**
+   * Creates a batch whose requests may call the tools they declare. Only
+   * supported by some providers.
+   */
+  createToolBatch?(requests: AnyBatchRequest<Input>[]): Promise<string>;
+
+  /**
+   * Streams the tool calls of each request of a completed tool call batch
+   */
+  streamToolBatchResults?(
+    batchId: string
+  ): AsyncIterable<BatchResponse<ToolCall[]>>;
+
+  async getToolBatchResults(
+    batchId: string
+  ): Promise<BatchResponse<ToolCall[]>[]> {
+    if (!this.streamToolBatchResults) {
+      throw unsupportedToolCalls(this.provider, batchId);
+    }
+    return collect(this.streamToolBatchResults(batchId));
+  }
+
+  /**
+   * Builds the provider-native payload of each request without sending
+   * anything, running the same checks as batch creation. Only supported by
+   * some providers.
+   */
+  renderRequests?(
+    requests: AnyBatchRequest<Input>[],
+    outputSchema?: z.ZodSchema<unknown>
+  ): Promise<RenderedRequests>;
+
+  /**
+   * Creates a batch that embeds the text of each request. Only supported by
+   * some providers.
+   */
+  createEmbeddingBatch?(
+    requests: EmbeddingRequest[],
+    options?: EmbeddingOptions
+  ): Promise<string>;
+
+  /**
+   * Streams the embedding of each request of a completed embedding batch
+   */
+  streamEmbeddingBatchResults?(
+    batchId: string
+  ): AsyncIterable<BatchResponse<number[]>>;
+
+  async getEmbeddingBatchResults(
+    batchId: string
+  ): Promise<BatchResponse<number[]>[]> {
+    if (!this.streamEmbeddingBatchResults) {
+      throw unsupportedEmbeddings(this.provider, batchId);
+    }
+    return collect(this.streamEmbeddingBatchResults(batchId));
+  }
 
   abstract cancelBatch?(batchId: string): Promise<void>;
 }
 
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const collected: T[] = [];
+  for await (const item of items) {
+    collected.push(item);
+  }
+  return collected;
+}
+
 // Error types
 export class BatchError extends Error {
   constructor(message: string, public code: string, public batchId?: string) {
@@ -87,12 +582,91 @@ export class BatchError extends Error {
   }
 }
 
+/**
+ * Creates the error for a provider that can't render batches
+ */
+export function unsupportedDryRun(provider: string): BatchError {
+  return new BatchError(
+    `The ${provider} provider does not support rendering batches`,
+    "unsupported_dry_run"
+  );
+}
+
+/**
+ * Creates the error for a provider without embedding batches
+ */
+export function unsupportedEmbeddings(
+  provider: string,
+  batchId?: string
+): BatchError {
+  return new BatchError(
+    `The ${provider} provider does not support embedding batches`,
+    "unsupported_embeddings",
+    batchId
+  );
+}
+
+/**
+ * Creates the error for a provider without text batches
+ */
+export function unsupportedTextBatches(
+  provider: string,
+  batchId?: string
+): BatchError {
+  return new BatchError(
+    `The ${provider} provider does not support text batches`,
+    "unsupported_text_batches",
+    batchId
+  );
+}
+
+/**
+ * Creates the error for a provider without tool call batches
+ */
+export function unsupportedToolCalls(
+  provider: string,
+  batchId?: string
+): BatchError {
+  return new BatchError(
+    `The ${provider} provider does not support tool call batches`,
+    "unsupported_tool_calls",
+    batchId
+  );
+}
+
 // Common content part interface for both providers
 export interface ContentPart {
-  type: "text" | "image_url";
+  type: "text" | "image_url" | "image_base64" | "file" | "document";
   text?: string;
   image_url?: {
     url: string;
     detail?: "auto" | "low" | "high";
   };
+  /** Inline image data */
+  image_base64?: {
+    /** Base64 encoded image */
+    data: string;
+    /** e.g. "image/png" */
+    mediaType: string;
+  };
+  /**
+   * Local image or PDF, read and encoded when the batch is submitted. The
+   * media type is detected from the extension or contents unless given.
+   */
+  file?: {
+    path: string;
+    mediaType?: string;
+  };
+  /** PDF document, either inline or by URL */
+  document?: {
+    /** Base64 encoded PDF */
+    data?: string;
+    url?: string;
+  };
+  /**
+   * Mark the prompt up to and including this part as a cacheable prefix.
+   * Anthropic caches only marked prefixes, while OpenAI and Gemini cache
+   * repeated prefixes automatically.
+   */
+  cache?: boolean;
 }
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { BatchResponse, ToolCall, ToolDefinition } from "./types";
+
+export interface ValidateResultsOptions {
+  /** Keep the unvalidated output on each result as `raw` */
+  keepRaw?: boolean;
+}
+
+/**
+ * Validates each result's output against the schema, moving failures into
+ * `error` with a `schema_validation_failed` code
+ */
+export function validateResults<TOutput>(
+  results: BatchResponse<unknown>[],
+  outputSchema: z.ZodSchema<TOutput>,
+  options: ValidateResultsOptions = {}
+): BatchResponse<TOutput>[] {
+  return results.map((result) => validateResult(result, outputSchema, options));
+}
+
+/**
+ * Validates a single result, see validateResults
+ */
+export function validateResult<TOutput>(
+  result: BatchResponse<unknown>,
+  outputSchema: z.ZodSchema<TOutput>,
+  { keepRaw = false }: ValidateResultsOptions = {}
+): BatchResponse<TOutput> {
+  const { output, ...rest } = result;
+  const raw = keepRaw ? { raw: output } : {};
+
+  // Items that already failed at the provider have nothing to validate
+  if (result.error) {
+    return { ...result, ...raw } as BatchResponse<TOutput>;
+  }
+
+  const parsed = outputSchema.safeParse(output);
+  if (parsed.success) {
+    return { ...rest, output: parsed.data, ...raw };
+  }
+
+  return {
+    ...rest,
+    ...raw,
+    error: {
+      code: "schema_validation_failed",
+      message: formatIssues(parsed.error.issues),
+      issues: parsed.error.issues,
+    },
+  };
+}
+
+/**
+ * Validates the arguments of each tool call against the called tool's
+ * parameters. Results calling an unknown tool get an `unknown_tool` error,
+ * and results with invalid arguments a `schema_validation_failed` error.
+ */
+export function validateToolCalls(
+  results: BatchResponse<ToolCall[]>[],
+  tools: Record<string, ToolDefinition>,
+  { keepRaw = false }: ValidateResultsOptions = {}
+): BatchResponse<ToolCall[]>[] {
+  return results.map((result) => {
+    const { output, ...rest } = result;
+    const raw = keepRaw ? { raw: output } : {};
+    if (result.error) {
+      return { ...result, ...raw };
+    }
+
+    const calls: ToolCall[] = [];
+    for (const call of output ?? []) {
+      const tool = tools[call.name];
+      if (!tool) {
+        return {
+          ...rest,
+          ...raw,
+          error: {
+            code: "unknown_tool",
+            message: `The model called the unknown tool ${call.name}`,
+          },
+        };
+      }
+      const parsed = tool.parameters.safeParse(call.arguments);
+      if (!parsed.success) {
+        return {
+          ...rest,
+          ...raw,
+          error: {
+            code: "schema_validation_failed",
+            message: `${call.name}: ${formatIssues(parsed.error.issues)}`,
+            issues: parsed.error.issues,
+          },
+        };
+      }
+      calls.push({ ...call, arguments: parsed.data });
+    }
+    return { ...rest, output: calls, ...raw };
+  });
+}
+
+/**
+ * Parses a JSON output, keeping malformed or truncated JSON as the raw string
+ * so that validation reports it on the item instead of failing every result
+ */
+export function parseJsonOutput(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function formatIssues(issues: z.ZodIssue[]): string {
+  return issues
+    .map((issue) =>
+      issue.path.length
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
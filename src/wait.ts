@@ -0,0 +1,191 @@
+import { z } from "zod";
+import {
+  Batch,
+  BatchError,
+  BatchRequestCounts,
+  BatchResponse,
+  LanguageModel,
+} from "./types";
+import { getBatchOrGroup, getResultsOrGroup } from "./sharding";
+import { validateResults } from "./validation";
+
+export interface BatchProgress {
+  batch: Batch;
+  /** Change in request counts since the previous report */
+  delta: BatchRequestCounts;
+}
+
+export interface WaitOptions {
+  /** Initial delay between polls in ms (default 5000) */
+  interval?: number;
+  /** Upper bound for the delay between polls in ms (default 60000) */
+  maxInterval?: number;
+  /** Give up after this many ms with a wait_timeout error */
+  timeout?: number;
+  /** Aborts waiting with a wait_aborted error */
+  signal?: AbortSignal;
+  /** Called whenever the batch status or request counts change */
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+export interface WaitForObjectBatchParams<Input, TOutput = unknown>
+  extends WaitOptions {
+  model: LanguageModel<Input>;
+  batchId: string;
+  /** Schema to validate each output against, see getObjectBatch */
+  outputSchema?: z.ZodSchema<TOutput>;
+  /** Keep the unvalidated output on each result as `raw` */
+  keepRaw?: boolean;
+}
+
+export interface WaitForObjectBatchResponse<TOutput> {
+  batch: Batch;
+  results: BatchResponse<TOutput>[];
+}
+
+const TERMINAL_ERRORS: Partial<Record<Batch["status"], string>> = {
+  failed: "batch_failed",
+  expired: "batch_expired",
+  cancelled: "batch_cancelled",
+};
+
+/**
+ * Polls a batch or sharded batch group with exponential backoff until it
+ * completes
+ * @param params Object containing the model, batch ID and polling options
+ * @returns Promise resolving to the completed batch and its results
+ */
+export async function waitForObjectBatch<TInput, TOutput>(
+  params: WaitForObjectBatchParams<TInput, TOutput>
+): Promise<WaitForObjectBatchResponse<TOutput>> {
+  const batch = await waitForBatch(params.model, params.batchId, params);
+  const results = await getResultsOrGroup(params.batchId, (id) =>
+    params.model.getBatchResults<TOutput>(id)
+  );
+  return {
+    batch,
+    results: params.outputSchema
+      ? validateResults(results, params.outputSchema, {
+          keepRaw: params.keepRaw,
+        })
+      : results,
+  };
+}
+
+/**
+ * Polls a batch until it completes, without fetching results. With
+ * `untilEnded` any terminal status is returned instead of thrown.
+ * @internal Shared by the helpers that need to wait on batches
+ */
+export async function waitForBatch<TInput>(
+  model: LanguageModel<TInput>,
+  batchId: string,
+  {
+    interval = 5000,
+    maxInterval = 60000,
+    timeout,
+    signal,
+    onProgress,
+  }: WaitOptions = {},
+  { untilEnded = false }: { untilEnded?: boolean } = {}
+): Promise<Batch> {
+  const deadline = timeout !== undefined ? Date.now() + timeout : undefined;
+  let delay = interval;
+  let previous: Batch | undefined;
+
+  for (;;) {
+    throwIfAborted(signal, batchId);
+
+    const batch = await getBatchOrGroup(model, batchId);
+
+    if (onProgress && hasChanged(previous, batch)) {
+      onProgress({
+        batch,
+        delta: diffCounts(previous?.requestCounts, batch.requestCounts),
+      });
+    }
+    previous = batch;
+
+    if (batch.status === "completed") {
+      return batch;
+    }
+
+    const terminalError = TERMINAL_ERRORS[batch.status];
+    if (terminalError && untilEnded) {
+      return batch;
+    }
+    if (terminalError) {
+      throw new BatchError(
+        `Batch ended with status ${batch.status}`,
+        terminalError,
+        batchId
+      );
+    }
+
+    // The last poll happens at the deadline rather than a full delay before it
+    const remaining = deadline !== undefined ? deadline - Date.now() : Infinity;
+    if (remaining <= 0) {
+      throw new BatchError(
+        `Batch did not complete within ${timeout}ms`,
+        "wait_timeout",
+        batchId
+      );
+    }
+
+    await sleep(Math.min(delay, remaining), signal, batchId);
+    delay = Math.min(delay * 2, maxInterval);
+  }
+}
+
+function hasChanged(previous: Batch | undefined, current: Batch): boolean {
+  if (!previous || previous.status !== current.status) {
+    return true;
+  }
+  const delta = diffCounts(previous.requestCounts, current.requestCounts);
+  return Object.values(delta).some((value) => value !== 0);
+}
+
+function diffCounts(
+  previous: BatchRequestCounts | undefined,
+  current: BatchRequestCounts
+): BatchRequestCounts {
+  const keys = Object.keys(current) as (keyof BatchRequestCounts)[];
+  return Object.fromEntries(
+    keys.map((key) => [key, (current[key] ?? 0) - (previous?.[key] ?? 0)])
+  ) as unknown as BatchRequestCounts;
+}
+
+function throwIfAborted(
+  signal: AbortSignal | undefined,
+  batchId: string
+): void {
+  if (signal?.aborted) {
+    throw new BatchError(
+      "Waiting for batch was aborted",
+      "wait_aborted",
+      batchId
+    );
+  }
+}
+
+async function sleep(
+  ms: number,
+  signal: AbortSignal | undefined,
+  batchId: string
+): Promise<void> {
+  // A signal that fired during the poll won't dispatch another abort event
+  throwIfAborted(signal, batchId);
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(
+        new BatchError("Waiting for batch was aborted", "wait_aborted", batchId)
+      );
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}